@@ -11,6 +11,10 @@ import Leaderboards from '@/pages/Leaderboards';
 import WeeklyTrends from '@/pages/WeeklyTrends';
 import PlayerComparison from '@/pages/PlayerComparison';
 import MyStats from '@/pages/MyStats';
+import EggDay from '@/pages/EggDay';
+import AdminSnapshots from '@/pages/AdminSnapshots';
+import AdminAuditLog from '@/pages/AdminAuditLog';
+import AdminExcludedPlayers from '@/pages/AdminExcludedPlayers';
 import '@/styles/index.css';
 
 const queryClient = new QueryClient({
@@ -93,6 +97,38 @@ function AppRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/egg-day"
+          element={
+            <ProtectedRoute>
+              <EggDay />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/snapshots"
+          element={
+            <ProtectedRoute adminOnly>
+              <AdminSnapshots />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/excluded-players"
+          element={
+            <ProtectedRoute adminOnly>
+              <AdminExcludedPlayers />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/audit-log"
+          element={
+            <ProtectedRoute adminOnly>
+              <AdminAuditLog />
+            </ProtectedRoute>
+          }
+        />
       </Route>
       
       <Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,92 @@
+import type { EggdayGain } from '@/types';
+import { calculateEggdayGain } from '@/utils/dataProcessing';
+import { bigNumberToString, formatInteger } from '@/utils/formatters';
+
+interface EggdayGainsTableProps {
+  gains: EggdayGain[];
+}
+
+function formatGainPct(gainPct: number | null | undefined): string {
+  if (gainPct == null) return 'N/A';
+  return `${gainPct > 0 ? '+' : ''}${gainPct.toFixed(2)}%`;
+}
+
+function gainColor(gain: number | null | undefined): string {
+  if (gain == null || gain === 0) return 'inherit';
+  return gain > 0 ? '#4ade80' : '#f87171';
+}
+
+/**
+ * Year-over-year Egg Day gains for a single player.
+ * Shows start → end values per year, most recent year first.
+ */
+export default function EggdayGainsTable({ gains }: EggdayGainsTableProps) {
+  if (!gains || gains.length === 0) {
+    return (
+      <div className="info-message">
+        No Egg Day data recorded yet. Gains are tracked once Wonky reports Egg Day start and end values.
+      </div>
+    );
+  }
+
+  const sorted = [...gains].sort((a, b) => b.year - a.year);
+
+  return (
+    <div className="card" style={{ overflowX: 'auto' }}>
+      <table>
+        <thead>
+          <tr>
+            <th>Year</th>
+            <th>EB</th>
+            <th>EB Gain %</th>
+            <th>SE</th>
+            <th>SE Gain</th>
+            <th>SE Gain %</th>
+            <th>PE</th>
+            <th>PE Gain</th>
+            <th>Role</th>
+            <th>Prestiges</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map(entry => {
+            const eb = calculateEggdayGain(entry, 'eb');
+            const se = calculateEggdayGain(entry, 'se');
+            const pe = calculateEggdayGain(entry, 'pe');
+            const prestiges = entry.start_prestiges != null && entry.end_prestiges != null
+              ? entry.end_prestiges - entry.start_prestiges
+              : null;
+
+            return (
+              <tr key={entry.year}>
+                <td><strong>{entry.year}</strong></td>
+                <td>
+                  {bigNumberToString(entry.start_eb)}% → {bigNumberToString(entry.end_eb)}%
+                </td>
+                <td style={{ color: gainColor(eb?.gainPct) }}>{formatGainPct(eb?.gainPct)}</td>
+                <td>
+                  {bigNumberToString(entry.start_se)} → {bigNumberToString(entry.end_se)}
+                </td>
+                <td style={{ color: gainColor(se?.gain) }}>
+                  {se ? `${se.gain > 0 ? '+' : ''}${bigNumberToString(se.gain)}` : 'N/A'}
+                </td>
+                <td style={{ color: gainColor(se?.gainPct) }}>{formatGainPct(se?.gainPct)}</td>
+                <td>
+                  {entry.start_pe != null ? formatInteger(entry.start_pe) : 'N/A'} → {entry.end_pe != null ? formatInteger(entry.end_pe) : 'N/A'}
+                </td>
+                <td style={{ color: gainColor(pe?.gain) }}>
+                  {pe ? `${pe.gain > 0 ? '+' : ''}${formatInteger(pe.gain)}` : 'N/A'}
+                </td>
+                <td>
+                  {entry.start_role || 'N/A'}
+                  {entry.end_role && entry.end_role !== entry.start_role ? ` → ${entry.end_role}` : ''}
+                </td>
+                <td>{prestiges != null ? `+${formatInteger(prestiges)}` : 'N/A'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
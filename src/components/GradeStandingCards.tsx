@@ -0,0 +1,40 @@
+import type { GradeStanding } from '@/types';
+
+interface GradeStandingCardsProps {
+  standing: GradeStanding;
+}
+
+const METRIC_LABELS: Record<keyof GradeStanding['metrics'], string> = {
+  eb: 'Earnings Bonus',
+  se: 'Soul Eggs',
+  pe: 'Prophecy Eggs',
+  te: 'Truth Eggs',
+  num_prestiges: 'Prestiges',
+};
+
+/**
+ * Rank and percentile within the player's grade for each metric
+ */
+export default function GradeStandingCards({ standing }: GradeStandingCardsProps) {
+  const entries = (Object.keys(METRIC_LABELS) as Array<keyof GradeStanding['metrics']>)
+    .map(metric => ({ metric, value: standing.metrics[metric] }))
+    .filter(({ value }) => value !== null);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem' }}>
+      {entries.map(({ metric, value }) => value && (
+        <div key={metric} className="metric-card">
+          <div className="metric-label">{METRIC_LABELS[metric]}</div>
+          <div className="metric-value">#{value.rank}</div>
+          <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+            of {value.rankedCount} in grade {standing.grade} · better than {value.percentile.toFixed(1)}%
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
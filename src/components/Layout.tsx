@@ -144,9 +144,21 @@ export default function Layout() {
                 <NavLink to="/weekly-trends">
                   Weekly Trends
                 </NavLink>
+                <NavLink to="/egg-day">
+                  Egg Day
+                </NavLink>
                 <NavLink to="/player-comparison">
                   Player Comparison
                 </NavLink>
+                <NavLink to="/admin/snapshots">
+                  Snapshots
+                </NavLink>
+                <NavLink to="/admin/excluded-players">
+                  Exclusions
+                </NavLink>
+                <NavLink to="/admin/audit-log">
+                  Audit Log
+                </NavLink>
               </>
             ) : (
               <>
@@ -159,6 +171,9 @@ export default function Layout() {
                 <NavLink to="/weekly-trends">
                   Weekly Trends
                 </NavLink>
+                <NavLink to="/egg-day">
+                  Egg Day
+                </NavLink>
                 <div className="info-message" style={{ marginTop: '1rem', fontSize: '0.875rem' }}>
                   ℹ️ Admin users have access to additional analytics pages.
                 </div>
@@ -1,30 +1,57 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { usePlayerSearch } from '@/hooks/usePlayerData';
+import { getDiscordAvatarUrl } from '@/services/permissions';
 
 interface PlayerSearchProps {
-  players: Array<{ label: string; discordId: string }>;
   onSelect: (discordId: string) => void;
   label?: string;
   placeholder?: string;
 }
 
+interface SearchOption {
+  label: string;
+  discordId: string;
+  hint?: string;
+  avatarUrl?: string | null;
+  grade?: string | null;
+}
+
+// Delay before a search runs, so every keystroke doesn't hit the server
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Player picker that queries the search_players RPC as you type
+ * (current and previous names, typo-tolerant, or an exact Discord ID)
+ */
 export default function PlayerSearch({ 
-  players, 
   onSelect, 
-  placeholder = 'Type player name or paste Discord ID...'
+  placeholder = 'Type player name or paste Discord ID...',
 }: PlayerSearchProps) {
   const [inputValue, setInputValue] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selectedLabel, setSelectedLabel] = useState<string | null>(null);
   const [isOpen, setIsOpen] = useState(false);
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLUListElement>(null);
 
-  // Filter players based on input
-  const filteredPlayers = inputValue.trim()
-    ? players.filter(player => 
-        player.label.toLowerCase().includes(inputValue.toLowerCase()) ||
-        player.discordId.includes(inputValue)
-      )
-    : players;
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(inputValue), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [inputValue]);
+
+  // Don't search again for the label that was just selected
+  const searchQuery = debouncedQuery !== selectedLabel ? debouncedQuery : '';
+  const { data: searchResults, isFetching: isSearching } = usePlayerSearch(searchQuery);
+
+  // Matches on a current or previous name, or the Discord ID
+  const filteredPlayers: SearchOption[] = (searchQuery.trim().length >= 2 ? searchResults || [] : []).map(result => ({
+    label: `${result.ign ?? result.matched_name} (${result.discord_name ?? 'unknown'}) - ${result.discord_id}`,
+    discordId: result.discord_id,
+    hint: result.is_current_name ? undefined : `formerly ${result.matched_name}`,
+    avatarUrl: getDiscordAvatarUrl({ discord_id: result.discord_id, avatar: result.avatar }, 32),
+    grade: result.grade,
+  }));
 
   // Check if input is a valid Discord ID (numeric string, typically 17-19 digits)
   const isDiscordId = (value: string): boolean => {
@@ -34,13 +61,15 @@ export default function PlayerSearch({
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setInputValue(value);
+    setSelectedLabel(null);
     setIsOpen(true);
     setHighlightedIndex(-1);
   };
 
   const handleSelect = (discordId: string) => {
-    const player = players.find(p => p.discordId === discordId);
+    const player = filteredPlayers.find(p => p.discordId === discordId);
     setInputValue(player?.label || discordId);
+    setSelectedLabel(player?.label || discordId);
     setIsOpen(false);
     onSelect(discordId);
   };
@@ -159,7 +188,22 @@ export default function PlayerSearch({
                   }}
                   onMouseEnter={() => setHighlightedIndex(index)}
                 >
-                  {player.label}
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    {player.avatarUrl && (
+                      <img
+                        src={player.avatarUrl}
+                        alt=""
+                        style={{ width: '24px', height: '24px', borderRadius: '50%' }}
+                      />
+                    )}
+                    <span>{player.label}</span>
+                    {player.grade && <span className="tag">{player.grade}</span>}
+                    {player.hint && (
+                      <span style={{ color: 'var(--color-text-muted, #888)', fontSize: '0.875rem' }}>
+                        ({player.hint})
+                      </span>
+                    )}
+                  </div>
                 </li>
               ))}
               {filteredPlayers.length > 50 && (
@@ -193,7 +237,11 @@ export default function PlayerSearch({
                 fontSize: '0.875rem',
               }}
             >
-              No players found. Try a different search or paste a Discord ID.
+              {inputValue.trim().length < 2
+                ? 'Type at least 2 characters to search.'
+                : isSearching || debouncedQuery !== inputValue
+                  ? 'Searching...'
+                  : 'No players found. Try a different search or paste a Discord ID.'}
             </div>
           )}
         </div>
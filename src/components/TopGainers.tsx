@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useSnapshotMetadata, useTopGainers } from '@/hooks/usePlayerData';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import ErrorMessage from '@/components/ErrorMessage';
+import type { TopGainerEntry } from '@/types';
+import { computeRanks } from '@/utils/dataProcessing';
+import { bigNumberToString, formatInteger } from '@/utils/formatters';
+
+type GainerMetric = keyof TopGainerEntry['deltas'];
+type GainMode = 'absolute' | 'percentage';
+type Preset = 'last_week' | 'last_4_weeks' | 'year_to_date' | 'custom';
+
+const PRESET_LABELS: Record<Preset, string> = {
+  last_week: 'Last week',
+  last_4_weeks: 'Last 4 weeks',
+  year_to_date: 'Year to date',
+  custom: 'Custom range',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Latest snapshot date on or before `target`, falling back to the earliest snapshot.
+ * `dates` must be sorted ascending.
+ */
+function findSnapshotOnOrBefore(dates: string[], target: Date): string {
+  const candidates = dates.filter(d => new Date(d).getTime() <= target.getTime());
+  return candidates.length > 0 ? candidates[candidates.length - 1] : dates[0];
+}
+
+/**
+ * Resolve a preset to a from/to snapshot pair using the latest snapshot as the end.
+ */
+function resolvePreset(preset: Exclude<Preset, 'custom'>, dates: string[]): { from: string; to: string } {
+  const to = dates[dates.length - 1];
+  const toTime = new Date(to).getTime();
+
+  switch (preset) {
+    case 'last_week':
+      return { from: findSnapshotOnOrBefore(dates, new Date(toTime - 7 * DAY_MS)), to };
+    case 'last_4_weeks':
+      return { from: findSnapshotOnOrBefore(dates, new Date(toTime - 28 * DAY_MS)), to };
+    case 'year_to_date': {
+      const year = to.slice(0, 4);
+      return { from: dates.find(d => d.startsWith(year)) ?? dates[0], to };
+    }
+  }
+}
+
+function formatValue(value: number, metric: GainerMetric): string {
+  if (metric === 'eb') return `${bigNumberToString(value)}%`;
+  if (metric === 'se') return bigNumberToString(value);
+  return formatInteger(Math.round(value));
+}
+
+/**
+ * Top Gainers tab on the Leaderboards page.
+ * Ranks players by how much a metric grew between two saved snapshots.
+ */
+export default function TopGainers() {
+  const { discordId, accessLevel } = useAuth();
+  const isAdmin = accessLevel === 'admin';
+  const [preset, setPreset] = useState<Preset>('last_week');
+  const [customFrom, setCustomFrom] = useState<string | null>(null);
+  const [customTo, setCustomTo] = useState<string | null>(null);
+  const [selectedMetric, setSelectedMetric] = useState<GainerMetric>('se');
+  const [gainMode, setGainMode] = useState<GainMode>('absolute');
+
+  const { data: snapshotMetadata, isLoading: isLoadingMetadata } = useSnapshotMetadata();
+  const dates = (snapshotMetadata || []).map(m => m.snapshot_date);
+
+  const range = dates.length < 2
+    ? null
+    : preset === 'custom'
+      ? { from: customFrom ?? dates[dates.length - 2], to: customTo ?? dates[dates.length - 1] }
+      : resolvePreset(preset, dates);
+  const validRange = range && range.from < range.to ? range : null;
+
+  const { data: gainersData, isLoading, error, refetch } = useTopGainers(
+    validRange?.from ?? null,
+    validRange?.to ?? null
+  );
+
+  const metricOptions: Partial<Record<GainerMetric, string>> = {
+    eb: 'Earnings Bonus',
+    se: 'Soul Eggs',
+    pe: 'Prophecy Eggs',
+    te: 'Truth Eggs',
+    // Prestige deltas are only returned to admins
+    ...(isAdmin ? { num_prestiges: 'Number of Prestiges' } : {}),
+  };
+
+  if (isLoadingMetadata) {
+    return <LoadingSpinner text="Loading snapshots..." />;
+  }
+
+  if (dates.length < 2) {
+    return (
+      <div className="info-message">
+        At least two snapshots are needed to compare gains.
+      </div>
+    );
+  }
+
+  const getSortValue = (entry: TopGainerEntry) => {
+    const delta = entry.deltas[selectedMetric];
+    if (!delta) return null;
+    return gainMode === 'absolute' ? delta.gain : delta.gainPct;
+  };
+
+  const rankedEntries = (gainersData?.entries || [])
+    .filter(entry => getSortValue(entry) != null)
+    .sort((a, b) => (getSortValue(b) as number) - (getSortValue(a) as number));
+  const ranks = computeRanks(rankedEntries, getSortValue, entry => entry.discord_id);
+
+  return (
+    <div>
+      {/* Options */}
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Period:</label>
+            <select value={preset} onChange={(e) => setPreset(e.target.value as Preset)} className="select">
+              {Object.entries(PRESET_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {preset === 'custom' && (
+            <>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>From:</label>
+                <select value={range?.from ?? ''} onChange={(e) => setCustomFrom(e.target.value)} className="select">
+                  {dates.slice(0, -1).map(date => (
+                    <option key={date} value={date}>{date}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>To:</label>
+                <select value={range?.to ?? ''} onChange={(e) => setCustomTo(e.target.value)} className="select">
+                  {dates.slice(1).map(date => (
+                    <option key={date} value={date}>{date}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Metric:</label>
+            <select value={selectedMetric} onChange={(e) => setSelectedMetric(e.target.value as GainerMetric)} className="select">
+              {Object.entries(metricOptions).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Rank by:</label>
+            <select value={gainMode} onChange={(e) => setGainMode(e.target.value as GainMode)} className="select">
+              <option value="absolute">Absolute gain</option>
+              <option value="percentage">Percentage gain</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {!validRange ? (
+        <div className="warning-message">The start snapshot must be earlier than the end snapshot.</div>
+      ) : isLoading ? (
+        <LoadingSpinner text="Calculating gains..." />
+      ) : error ? (
+        <ErrorMessage
+          title="Failed to Load Top Gainers"
+          message={error instanceof Error ? error.message : 'An unknown error occurred'}
+          onRetry={() => refetch()}
+        />
+      ) : (
+        <div className="card" style={{ overflowX: 'auto' }}>
+          <h2 style={{ marginBottom: '1rem' }}>
+            {metricOptions[selectedMetric]} gains from {validRange.from} to {validRange.to}
+          </h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Rank</th>
+                <th>IGN</th>
+                <th>Discord Display Name</th>
+                <th>Grade</th>
+                <th>From</th>
+                <th>To</th>
+                <th>Gain</th>
+                <th>Gain %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rankedEntries.map(entry => {
+                const delta = entry.deltas[selectedMetric];
+                if (!delta) return null;
+
+                return (
+                  <tr
+                    key={entry.discord_id}
+                    style={entry.discord_id === discordId ? { background: 'var(--color-bg-tertiary)' } : undefined}
+                  >
+                    <td><strong>{ranks[entry.discord_id]}</strong></td>
+                    <td>{entry.ign}</td>
+                    <td>{entry.display_name}</td>
+                    <td>{entry.grade}</td>
+                    <td>{formatValue(delta.from, selectedMetric)}</td>
+                    <td>{formatValue(delta.to, selectedMetric)}</td>
+                    <td style={{ color: delta.gain > 0 ? '#4ade80' : delta.gain < 0 ? '#f87171' : 'inherit' }}>
+                      {delta.gain > 0 ? '+' : ''}{formatValue(delta.gain, selectedMetric)}
+                    </td>
+                    <td>{delta.gainPct != null ? `${delta.gainPct.toFixed(2)}%` : 'N/A'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
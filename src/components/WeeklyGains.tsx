@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import type { PlayerSnapshot } from '@/types';
+import { GainsChart } from '@/components/charts';
+import { calculateWeeklyGains, calculateRollingAverage, summarizeWeeklyGains } from '@/utils/dataProcessing';
+import { bigNumberToString, formatInteger } from '@/utils/formatters';
+import { WEEKLY_GAIN_METRICS } from '@/config/constants';
+
+type WeeklyGainMetric = typeof WEEKLY_GAIN_METRICS[number];
+type GainMode = 'absolute' | 'percentage';
+
+interface WeeklyGainsProps {
+  snapshots: PlayerSnapshot[];
+}
+
+const METRIC_LABELS: Record<WeeklyGainMetric, string> = {
+  eb: 'Earnings Bonus',
+  se: 'Soul Eggs',
+  pe: 'Prophecy Eggs',
+  te: 'Truth Eggs',
+  num_prestiges: 'Number of Prestiges',
+};
+
+function formatGain(value: number, metric: WeeklyGainMetric, mode: GainMode): string {
+  const sign = value > 0 ? '+' : '';
+  if (mode === 'percentage') {
+    return `${sign}${value.toFixed(2)}%`;
+  }
+  if (metric === 'eb' || metric === 'se') {
+    return `${sign}${bigNumberToString(value)}${metric === 'eb' ? '%' : ''}`;
+  }
+  return `${sign}${formatInteger(Math.round(value))}`;
+}
+
+function gainColor(value: number): string {
+  if (value === 0) return 'inherit';
+  return value > 0 ? '#4ade80' : '#f87171';
+}
+
+/**
+ * Week-over-week gains for a single player.
+ * Shows a gains chart, streak/best/worst summary and a table with a
+ * rolling 4-snapshot average for the selected metric.
+ */
+export default function WeeklyGains({ snapshots }: WeeklyGainsProps) {
+  const [selectedMetric, setSelectedMetric] = useState<WeeklyGainMetric>('se');
+  const [gainMode, setGainMode] = useState<GainMode>('absolute');
+
+  // First entry is the baseline week with no previous snapshot
+  const gains = calculateWeeklyGains(snapshots, selectedMetric);
+  const weeks = gains.slice(1);
+
+  if (weeks.length === 0) {
+    return (
+      <div className="info-message">
+        At least two snapshots are needed to calculate weekly gains.
+      </div>
+    );
+  }
+
+  const getValue = (week: typeof weeks[number]) => (gainMode === 'absolute' ? week.gain : week.gainPct);
+  const rollingAverages = calculateRollingAverage(weeks.map(getValue), 4);
+  const { currentStreak, longestStreak, best, worst } = summarizeWeeklyGains(gains, getValue);
+
+  const chartData = weeks.map(week => ({ snapshot_date: week.snapshot_date, gain: getValue(week) }));
+  const latestAverage = rollingAverages[rollingAverages.length - 1];
+
+  return (
+    <div>
+      <div className="card" style={{ marginBottom: '1rem' }}>
+        <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Metric:</label>
+            <select
+              value={selectedMetric}
+              onChange={(e) => setSelectedMetric(e.target.value as WeeklyGainMetric)}
+              className="select"
+              style={{ maxWidth: '300px' }}
+            >
+              {Object.entries(METRIC_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Show:</label>
+            <select
+              value={gainMode}
+              onChange={(e) => setGainMode(e.target.value as GainMode)}
+              className="select"
+              style={{ maxWidth: '300px' }}
+            >
+              <option value="absolute">Absolute gain</option>
+              <option value="percentage">Percentage gain</option>
+            </select>
+          </div>
+        </div>
+        <GainsChart
+          data={chartData}
+          title={`Weekly ${METRIC_LABELS[selectedMetric]} Gains${gainMode === 'percentage' ? ' (%)' : ''}`}
+        />
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem', marginBottom: '1rem' }}>
+        <div className="metric-card">
+          <div className="metric-label">Current Positive Streak</div>
+          <div className="metric-value">{currentStreak} {currentStreak === 1 ? 'week' : 'weeks'}</div>
+        </div>
+        <div className="metric-card">
+          <div className="metric-label">Longest Positive Streak</div>
+          <div className="metric-value">{longestStreak} {longestStreak === 1 ? 'week' : 'weeks'}</div>
+        </div>
+        <div className="metric-card">
+          <div className="metric-label">Best Week</div>
+          <div className="metric-value" style={{ fontSize: '1.25rem', color: best ? gainColor(best.gain) : 'inherit' }}>
+            {best ? formatGain(getValue(best), selectedMetric, gainMode) : 'N/A'}
+          </div>
+          {best && (
+            <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>{best.snapshot_date}</div>
+          )}
+        </div>
+        <div className="metric-card">
+          <div className="metric-label">Worst Week</div>
+          <div className="metric-value" style={{ fontSize: '1.25rem', color: worst ? gainColor(worst.gain) : 'inherit' }}>
+            {worst ? formatGain(getValue(worst), selectedMetric, gainMode) : 'N/A'}
+          </div>
+          {worst && (
+            <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>{worst.snapshot_date}</div>
+          )}
+        </div>
+        <div className="metric-card">
+          <div className="metric-label">4-Week Average</div>
+          <div className="metric-value" style={{ fontSize: '1.25rem', color: gainColor(latestAverage) }}>
+            {formatGain(latestAverage, selectedMetric, gainMode)}
+          </div>
+        </div>
+      </div>
+
+      <div className="card" style={{ overflowX: 'auto' }}>
+        <table>
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Gain</th>
+              <th>Gain %</th>
+              <th>4-Week Avg</th>
+            </tr>
+          </thead>
+          <tbody>
+            {weeks
+              .map((week, idx) => ({ week, average: rollingAverages[idx] }))
+              .reverse()
+              .map(({ week, average }) => (
+                <tr key={week.snapshot_date}>
+                  <td>{week.snapshot_date}</td>
+                  <td style={{ color: gainColor(week.gain) }}>{formatGain(week.gain, selectedMetric, 'absolute')}</td>
+                  <td style={{ color: gainColor(week.gainPct) }}>{formatGain(week.gainPct, selectedMetric, 'percentage')}</td>
+                  <td>{formatGain(average, selectedMetric, gainMode)}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import Plot from 'react-plotly.js';
+import type { MetricDistribution } from '@/types';
+import { bigNumberToString } from '@/utils/formatters';
+
+interface DistributionChartProps {
+  distribution: MetricDistribution;
+  playerValue: number;
+  title: string;
+  isEb?: boolean;
+}
+
+function formatValue(value: number, isEb: boolean): string {
+  const formatted = bigNumberToString(value, 2, undefined, true);
+  return isEb ? `${formatted}%` : formatted;
+}
+
+/**
+ * Guild-wide histogram for one metric.
+ * The bin containing the player's value is highlighted, and a box plot
+ * of the five-number summary is drawn above the bars.
+ */
+export default function DistributionChart({ distribution, playerValue, title, isEb = false }: DistributionChartProps) {
+  if (!distribution || distribution.bins.length === 0) {
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--color-text-muted)' }}>
+        No data available for chart
+      </div>
+    );
+  }
+
+  const labels = distribution.bins.map(bin => `${formatValue(bin.start, isEb)}–${formatValue(bin.end, isEb)}`);
+
+  // Last bin is inclusive of the maximum
+  const playerBin = distribution.bins.findIndex((bin, i) =>
+    playerValue >= bin.start && (playerValue < bin.end || i === distribution.bins.length - 1)
+  );
+
+  // Map a value onto the categorical bin axis (fractional index inside its bin)
+  const toBinPosition = (value: number): number => {
+    const useLog = distribution.scale === 'log';
+    const scale = (v: number) => (useLog ? Math.log10(Math.max(v, 1)) : v);
+    const low = scale(distribution.bins[0].start);
+    const high = scale(distribution.bins[distribution.bins.length - 1].end);
+    const width = (high - low) / distribution.bins.length || 1;
+    return (scale(value) - low) / width - 0.5;
+  };
+
+  const summary = [
+    { label: 'Min', value: distribution.min },
+    { label: 'Q1', value: distribution.q1 },
+    { label: 'Median', value: distribution.median },
+    { label: 'Q3', value: distribution.q3 },
+    { label: 'Max', value: distribution.max },
+  ];
+
+  return (
+    <Plot
+      data={[
+        {
+          x: labels.map((_, i) => i),
+          y: distribution.bins.map(bin => bin.count),
+          type: 'bar',
+          marker: {
+            color: distribution.bins.map((_, i) => (i === playerBin ? '#5865f2' : '#b8b8b8')),
+          },
+          customdata: labels,
+          hovertemplate: '%{customdata}<br>%{y} players<extra></extra>',
+          name: 'Players',
+        },
+        {
+          x: summary.map(s => toBinPosition(s.value)),
+          y: summary.map(() => 0),
+          yaxis: 'y2',
+          type: 'scatter',
+          mode: 'text+markers',
+          text: summary.map(s => s.label),
+          textposition: 'top center',
+          marker: { symbol: 'line-ns-open', size: 16, color: '#333333' },
+          customdata: summary.map(s => formatValue(s.value, isEb)),
+          hovertemplate: '%{text}: %{customdata}<extra></extra>',
+          name: 'Guild summary',
+        },
+      ]}
+      layout={{
+        title: {
+          text: title,
+          font: { size: 18 },
+        },
+        xaxis: {
+          title: distribution.scale === 'log' ? 'Value (log scale bins)' : 'Value',
+          tickmode: 'array',
+          tickvals: labels.map((_, i) => i),
+          ticktext: labels,
+          tickangle: -45,
+        },
+        yaxis: {
+          title: 'Players',
+          domain: [0, 0.8],
+        },
+        yaxis2: {
+          domain: [0.85, 1],
+          showticklabels: false,
+          showgrid: false,
+          zeroline: false,
+        },
+        shapes: [
+          // Interquartile box and whiskers
+          {
+            type: 'rect',
+            xref: 'x',
+            yref: 'y2',
+            x0: toBinPosition(distribution.q1),
+            x1: toBinPosition(distribution.q3),
+            y0: -0.5,
+            y1: 0.5,
+            line: { color: '#333333' },
+            fillcolor: 'rgba(88, 101, 242, 0.2)',
+          },
+          {
+            type: 'line',
+            xref: 'x',
+            yref: 'y2',
+            x0: toBinPosition(distribution.min),
+            x1: toBinPosition(distribution.max),
+            y0: 0,
+            y1: 0,
+            line: { color: '#333333', width: 1 },
+          },
+          // Player's position
+          {
+            type: 'line',
+            xref: 'x',
+            yref: 'paper',
+            x0: toBinPosition(playerValue),
+            x1: toBinPosition(playerValue),
+            y0: 0,
+            y1: 1,
+            line: { color: '#ed4245', width: 2, dash: 'dash' },
+          },
+        ],
+        annotations: [
+          {
+            x: toBinPosition(playerValue),
+            y: 0.8,
+            xref: 'x',
+            yref: 'paper',
+            text: `You (${formatValue(playerValue, isEb)})`,
+            showarrow: false,
+            xanchor: 'left',
+            font: { color: '#ed4245' },
+          },
+        ],
+        showlegend: false,
+        height: 500,
+        margin: { l: 80, r: 40, t: 60, b: 120 },
+        plot_bgcolor: '#f6f6f7',
+        paper_bgcolor: '#ffffff',
+      }}
+      config={{
+        responsive: true,
+        displayModeBar: true,
+        displaylogo: false,
+        modeBarButtonsToRemove: ['pan2d', 'lasso2d', 'select2d'],
+      }}
+      style={{ width: '100%' }}
+    />
+  );
+}
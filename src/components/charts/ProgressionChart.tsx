@@ -11,6 +11,7 @@ interface ProgressionChartProps {
   isEb?: boolean; // Whether this is an EB chart (adds % suffix)
   isInteger?: boolean; // Whether values are integers (prestiges, pe, te)
   showDataLossNote?: boolean; // Whether to show data loss note for prestiges
+  flags?: Array<{ snapshot_date: string; labels: string[] }>; // Suspicious snapshots, marked on the line
 }
 
 function generateTickValues(data: Array<{ value: number | null }>, useLogScale: boolean): number[] | null {
@@ -61,6 +62,7 @@ export default function ProgressionChart({
   isEb = false,
   isInteger = false,
   showDataLossNote = false,
+  flags = [],
 }: ProgressionChartProps) {
   if (!data || data.length === 0) {
     return (
@@ -131,10 +133,38 @@ export default function ProgressionChart({
     };
   });
 
+  // Flagged snapshots: red X on the data point, a warning sign above it, reasons on hover
+  const labelsByDate = new Map(flags.map(f => [f.snapshot_date, f.labels]));
+  const flaggedPoints = data
+    .filter((d): d is { snapshot_date: string; value: number } => d.value != null && labelsByDate.has(d.snapshot_date))
+    .map(d => ({ ...d, labels: labelsByDate.get(d.snapshot_date) as string[] }));
+
+  const flagTrace = {
+    x: flaggedPoints.map(d => d.snapshot_date),
+    y: flaggedPoints.map(d => d.value),
+    type: 'scatter' as const,
+    mode: 'markers' as const,
+    name: 'Flagged data',
+    marker: { size: 12, color: '#f87171', symbol: 'x' },
+    customdata: flaggedPoints.map(d => d.labels.join('<br>')),
+    hovertemplate: '⚠ %{customdata}<extra></extra>',
+  };
+
+  // Annotation y is in log10 units on a log axis
+  const flagAnnotations = flaggedPoints.map(d => ({
+    x: d.snapshot_date,
+    y: useLogScale ? Math.log10(d.value) : d.value,
+    text: '⚠',
+    showarrow: false,
+    yshift: 16,
+    font: { color: '#f87171', size: 14 },
+    hovertext: d.labels.join('<br>'),
+  }));
+
   return (
     <>
       <Plot
-        data={traces}
+        data={flaggedPoints.length > 0 ? [...traces, flagTrace] : traces}
         layout={{
           title: {
             text: title,
@@ -160,6 +190,7 @@ export default function ProgressionChart({
             xanchor: 'center',
             x: 0.5,
           },
+          annotations: flagAnnotations,
           hovermode: 'x unified',
           height: 500,
           margin: { l: 80, r: 40, t: 60, b: 80 },
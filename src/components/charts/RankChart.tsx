@@ -0,0 +1,92 @@
+import Plot from 'react-plotly.js';
+import type { PlayerRankHistoryEntry } from '@/types';
+
+interface RankChartProps {
+  data: PlayerRankHistoryEntry[];
+  title?: string;
+}
+
+const RANK_SERIES: Array<{ key: keyof PlayerRankHistoryEntry; label: string; color: string }> = [
+  { key: 'eb_rank', label: 'EB', color: '#5865f2' },
+  { key: 'se_rank', label: 'SE', color: '#ed4245' },
+  { key: 'pe_rank', label: 'PE', color: '#57f287' },
+  { key: 'te_rank', label: 'TE', color: '#fee75c' },
+  { key: 'prestige_rank', label: 'Prestiges', color: '#eb459e' },
+];
+
+/**
+ * Guild rank over time, one line per metric.
+ * The y-axis is reversed so rank #1 sits at the top.
+ */
+export default function RankChart({ data, title = 'Guild Rank Over Time' }: RankChartProps) {
+  if (!data || data.length === 0) {
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--color-text-muted)' }}>
+        No data available for chart
+      </div>
+    );
+  }
+
+  const sorted = [...data].sort((a, b) =>
+    new Date(a.snapshot_date).getTime() - new Date(b.snapshot_date).getTime()
+  );
+
+  // Skip metrics with no ranks at all (e.g. prestiges for non-admins)
+  const traces = RANK_SERIES
+    .filter(series => sorted.some(d => d[series.key] != null))
+    .map(series => {
+      const points = sorted.filter(d => d[series.key] != null);
+      return {
+        x: points.map(d => d.snapshot_date),
+        y: points.map(d => d[series.key] as number),
+        type: 'scatter' as const,
+        mode: 'lines+markers' as const,
+        name: series.label,
+        marker: { size: 6, color: series.color },
+        line: { color: series.color },
+        customdata: points.map(d => d.player_count),
+        hovertemplate: `${series.label}: #%{y} of %{customdata}<extra></extra>`,
+      };
+    });
+
+  return (
+    <Plot
+      data={traces}
+      layout={{
+        title: {
+          text: title,
+          font: { size: 18 },
+        },
+        xaxis: {
+          title: 'Date',
+          type: 'date',
+        },
+        yaxis: {
+          title: 'Rank',
+          autorange: 'reversed',
+          rangemode: 'tozero',
+        },
+        hovermode: 'x unified',
+        height: 500,
+        margin: { l: 80, r: 40, t: 60, b: 60 },
+        plot_bgcolor: '#f6f6f7',
+        paper_bgcolor: '#ffffff',
+        showlegend: true,
+        legend: {
+          orientation: 'h',
+          yanchor: 'bottom',
+          y: 1.02,
+          xanchor: 'right',
+          x: 1,
+        },
+      }}
+      config={{
+        responsive: true,
+        displayModeBar: true,
+        displaylogo: false,
+        modeBarButtonsToRemove: ['pan2d', 'lasso2d', 'select2d'],
+      }}
+      style={{ width: '100%' }}
+    />
+  );
+}
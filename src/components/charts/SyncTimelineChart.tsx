@@ -0,0 +1,109 @@
+import Plot from 'react-plotly.js';
+import type { SnapshotDecisionLogEntry } from '@/types';
+
+interface SyncTimelineChartProps {
+  data: SnapshotDecisionLogEntry[];
+  title?: string;
+}
+
+/**
+ * Sync percentage of every snapshot decision over time.
+ * Saved snapshots are marked in green, pending-sync retries in orange,
+ * failed or blocked saves in red.
+ */
+export default function SyncTimelineChart({ data, title = 'Sync Percentage Over Time' }: SyncTimelineChartProps) {
+  if (!data || data.length === 0) {
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--color-text-muted)' }}>
+        No data available for chart
+      </div>
+    );
+  }
+
+  const saved = data.filter(d => d.snapshot_saved);
+  const pending = data.filter(d => d.is_pending_sync && !d.snapshot_saved);
+  const failed = data.filter(d => d.save_error);
+
+  const traces = [
+    {
+      x: data.map(d => d.decided_at),
+      y: data.map(d => d.sync_percentage),
+      type: 'scatter' as const,
+      mode: 'lines' as const,
+      name: 'Sync %',
+      line: { color: '#5865f2', width: 1.5 },
+      customdata: data.map(d => [d.players_in_sync_window, d.total_non_excluded_players, d.reason]),
+      hovertemplate: '%{y:.2f}% (%{customdata[0]} / %{customdata[1]})<br>%{customdata[2]}<extra></extra>',
+    },
+    {
+      x: pending.map(d => d.decided_at),
+      y: pending.map(d => d.sync_percentage),
+      type: 'scatter' as const,
+      mode: 'markers' as const,
+      name: 'Pending sync',
+      marker: { size: 8, color: '#f59e0b' },
+      customdata: pending.map(d => d.pending_attempt_count),
+      hovertemplate: 'Pending sync (attempt %{customdata})<extra></extra>',
+    },
+    {
+      x: saved.map(d => d.decided_at),
+      y: saved.map(d => d.sync_percentage),
+      type: 'scatter' as const,
+      mode: 'markers' as const,
+      name: 'Snapshot saved',
+      marker: { size: 12, color: '#4ade80', symbol: 'star' },
+      customdata: saved.map(d => d.snapshot_date ?? ''),
+      hovertemplate: 'Snapshot saved: %{customdata}<extra></extra>',
+    },
+    {
+      x: failed.map(d => d.decided_at),
+      y: failed.map(d => d.sync_percentage),
+      type: 'scatter' as const,
+      mode: 'markers' as const,
+      name: 'Save failed / blocked',
+      marker: { size: 10, color: '#f87171', symbol: 'x' },
+      customdata: failed.map(d => [d.save_blocked ? 'Blocked' : 'Save failed', d.save_error ?? '']),
+      hovertemplate: '%{customdata[0]}: %{customdata[1]}<extra></extra>',
+    },
+  ];
+
+  return (
+    <Plot
+      data={traces}
+      layout={{
+        title: {
+          text: title,
+          font: { size: 18 },
+        },
+        xaxis: {
+          title: 'Time',
+          type: 'date',
+        },
+        yaxis: {
+          title: 'Players in Sync Window (%)',
+          range: [0, 101],
+        },
+        hovermode: 'closest',
+        height: 450,
+        margin: { l: 80, r: 40, t: 60, b: 60 },
+        plot_bgcolor: '#f6f6f7',
+        paper_bgcolor: '#ffffff',
+        showlegend: true,
+        legend: {
+          orientation: 'h',
+          yanchor: 'bottom',
+          y: 1.02,
+          xanchor: 'right',
+          x: 1,
+        },
+      }}
+      config={{
+        responsive: true,
+        displayModeBar: true,
+        displaylogo: false,
+        modeBarButtonsToRemove: ['pan2d', 'lasso2d', 'select2d'],
+      }}
+      style={{ width: '100%' }}
+    />
+  );
+}
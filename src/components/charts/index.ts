@@ -4,3 +4,6 @@ export { default as MultiLineChart } from './MultiLineChart';
 export { default as GradeDistributionChart } from './GradeDistributionChart';
 export { default as LeaderboardChart } from './LeaderboardChart';
 export { default as RoleDistributionChart } from './RoleDistributionChart';
+export { default as RankChart } from './RankChart';
+export { default as DistributionChart } from './DistributionChart';
+export { default as SyncTimelineChart } from './SyncTimelineChart';
@@ -6,9 +6,13 @@ export const PAGE_TITLE = 'Majeggstics Dashboard';
 export const TABLE_PLAYER_SNAPSHOTS = 'player_snapshots';
 export const TABLE_SNAPSHOT_METADATA = 'snapshot_metadata';
 export const TABLE_WEEKLY_STATISTICS = 'weekly_statistics';
-
-// Materialized views
-export const VIEW_UNIQUE_PLAYERS_LATEST = 'unique_players_latest';
+export const TABLE_EGGDAY_GAINS = 'eggday_gains';
+export const TABLE_PLAYER_NAME_HISTORY = 'player_name_history';
+export const TABLE_SNAPSHOT_SAVE_METADATA = 'snapshot_save_metadata';
+export const TABLE_ADMIN_AUDIT_LOG = 'admin_audit_log';
+export const TABLE_SNAPSHOT_METADATA_ARCHIVE = 'snapshot_metadata_archive';
+export const TABLE_SNAPSHOT_DECISION_LOG = 'snapshot_decision_log';
+export const TABLE_PLAYER_SNAPSHOT_FLAGS = 'player_snapshot_flags';
 
 // CSV Export Headers - Used for exporting player snapshot data
 export const CSV_EXPORT_HEADERS = [
@@ -18,16 +22,21 @@ export const CSV_EXPORT_HEADERS = [
   'pe',
   'te',
   'num_prestiges',
+  'gains_saturday',
+  'max_mystical_eggs',
   'farmer_role',
   'grade',
   'active'
 ] as const;
 
+// Metrics with week-over-week gains (Weekly Gains section and CSV export)
+export const WEEKLY_GAIN_METRICS = ['eb', 'se', 'pe', 'te', 'num_prestiges'] as const;
+
 // Cache TTLs (in milliseconds)
 export const CACHE_TTL = {
-  PLAYER_LIST: 3_600_000, // 1 hour
   LATEST_SNAPSHOT: 3_600_000, // 1 hour
   PLAYER_DATA: 3_600_000, // 1 hour
+  PLAYER_SEARCH: 60_000, // 1 minute
 };
 
 
@@ -71,6 +80,12 @@ export const EDGE_FUNCTIONS = {
   DISCORD_AUTH: '/functions/v1/discord-auth',
   GET_LEADERBOARD: '/functions/v1/get-leaderboard',
   GET_PLAYER_CURRENT_STATS: '/functions/v1/get-player-current-stats',
+  GET_EGGDAY_LEADERBOARD: '/functions/v1/get-eggday-leaderboard',
+  GET_TOP_GAINERS: '/functions/v1/get-top-gainers',
+  UPDATE_PLAYER_DATA: '/functions/v1/update-player-data',
+  DELETE_SNAPSHOT: '/functions/v1/delete-snapshot',
+  RESTORE_SNAPSHOT: '/functions/v1/restore-snapshot',
+  MANAGE_EXCLUDED_PLAYERS: '/functions/v1/manage-excluded-players',
 } as const;
 
 // Grade colors for charts
@@ -0,0 +1,385 @@
+// Custom hooks for admin-only data and actions (snapshot management, snapshot archive, excluded players, audit log, snapshot flags)
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  TABLE_SNAPSHOT_SAVE_METADATA,
+  TABLE_ADMIN_AUDIT_LOG,
+  TABLE_SNAPSHOT_METADATA_ARCHIVE,
+  TABLE_SNAPSHOT_DECISION_LOG,
+  TABLE_PLAYER_SNAPSHOT_FLAGS,
+  CACHE_TTL,
+  ENV,
+  EDGE_FUNCTIONS,
+} from '@/config/constants';
+import type {
+  SnapshotSaveState,
+  SnapshotDecisionLogEntry,
+  UpdatePlayerDataResult,
+  DeleteSnapshotResult,
+  RestoreSnapshotResult,
+  ArchivedSnapshot,
+  AdminAuditLogEntry,
+  ExcludedPlayersResponse,
+  PlayerSnapshotFlag,
+} from '@/types';
+import { useAuth } from '@/hooks/useAuth';
+
+/**
+ * POST (or DELETE) to an admin Edge Function with the user's JWT
+ */
+async function postAdminFunction<T>(
+  path: string,
+  jwt: string,
+  body: Record<string, unknown>,
+  method: 'POST' | 'DELETE' = 'POST'
+): Promise<T> {
+  const response = await fetch(`${ENV.SUPABASE_URL}${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${jwt}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.success === false) {
+    throw new Error(data.error || `Request failed: ${response.status}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Fetch the snapshot decision state (last decision, pending sync, last save)
+ *
+ * SECURITY: RLS only allows admins to read snapshot_save_metadata
+ */
+export function useSnapshotSaveState() {
+  const { getAuthenticatedClient, isAuthenticated, isAdmin, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['snapshotSaveState', jwt],
+    queryFn: async () => {
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const { data, error } = await client
+        .from(TABLE_SNAPSHOT_SAVE_METADATA)
+        .select('last_saved_at, last_decision_at, last_decision_result, last_email_sent_at, last_email_type, pending_sync_first_attempt, pending_sync_attempt_count, updated_at')
+        .eq('id', 1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as SnapshotSaveState | null;
+    },
+    enabled: isAuthenticated && isAdmin(),
+    // Decisions are made every 15 minutes by the cron job
+    refetchInterval: 60 * 1000,
+  });
+}
+
+/**
+ * Fetch snapshot decisions from the last `days` days, oldest first
+ *
+ * SECURITY: RLS only allows admins to read snapshot_decision_log
+ */
+export function useSnapshotDecisionLog(days: number) {
+  const { getAuthenticatedClient, isAuthenticated, isAdmin, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['snapshotDecisionLog', days, jwt],
+    queryFn: async () => {
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const allData: SnapshotDecisionLogEntry[] = [];
+      const pageSize = 1000;
+      const maxPages = 20; // Safety limit (one decision every 15 minutes)
+
+      for (let page = 0; page < maxPages; page++) {
+        const offset = page * pageSize;
+        const { data, error } = await client
+          .from(TABLE_SNAPSHOT_DECISION_LOG)
+          .select('id, decided_at, should_save, sync_percentage, players_in_sync_window, total_non_excluded_players, missing_player_count, excluded_player_count, hours_since_last_save, reason, is_pending_sync, pending_attempt_count, snapshot_saved, snapshot_date, save_error, save_blocked')
+          .gte('decided_at', since)
+          .order('decided_at', { ascending: true })
+          .range(offset, offset + pageSize - 1);
+
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        allData.push(...(data as SnapshotDecisionLogEntry[]));
+
+        if (data.length < pageSize) break;
+      }
+
+      return allData;
+    },
+    enabled: isAuthenticated && isAdmin(),
+    placeholderData: previous => previous,
+    // A new decision is logged every 15 minutes
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Data quality flags for one player's snapshots (SE/PE decreases, EB/role
+ * mismatches, grade changes). Admin only; disabled for regular users.
+ */
+export function usePlayerSnapshotFlags(discordId: string | null) {
+  const { getAuthenticatedClient, isAuthenticated, isAdmin, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['playerSnapshotFlags', discordId, jwt],
+    queryFn: async () => {
+      if (!discordId) return [];
+
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const { data, error } = await client
+        .from(TABLE_PLAYER_SNAPSHOT_FLAGS)
+        .select('snapshot_date, discord_id, flag, previous_value, current_value, expected_value')
+        .eq('discord_id', discordId)
+        .order('snapshot_date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as PlayerSnapshotFlag[];
+    },
+    enabled: isAuthenticated && isAdmin() && !!discordId,
+    staleTime: CACHE_TTL.PLAYER_DATA,
+  });
+}
+
+/**
+ * Delete a saved snapshot via the delete-snapshot Edge Function (admin JWT)
+ * The snapshot is archived and can be restored until its purge date.
+ */
+export function useDeleteSnapshot() {
+  const { jwt } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (snapshotDate: string) => {
+      if (!jwt) throw new Error('Not authenticated');
+      return postAdminFunction<DeleteSnapshotResult>(EDGE_FUNCTIONS.DELETE_SNAPSHOT, jwt, { snapshot_date: snapshotDate });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['snapshotMetadata'] });
+      queryClient.invalidateQueries({ queryKey: ['leaderboardPage'] });
+      queryClient.invalidateQueries({ queryKey: ['cachedLeaderboard'] });
+      queryClient.invalidateQueries({ queryKey: ['archivedSnapshots'] });
+      queryClient.invalidateQueries({ queryKey: ['adminAuditLog'] });
+    },
+  });
+}
+
+/**
+ * Fetch snapshots archived by delete-snapshot, newest first
+ *
+ * SECURITY: RLS only allows admins to read snapshot_metadata_archive
+ */
+export function useArchivedSnapshots() {
+  const { getAuthenticatedClient, isAuthenticated, isAdmin, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['archivedSnapshots', jwt],
+    queryFn: async () => {
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const { data, error } = await client
+        .from(TABLE_SNAPSHOT_METADATA_ARCHIVE)
+        .select('snapshot_date, record_count, imported_at, archived_at, archived_by, purge_after')
+        .order('snapshot_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as ArchivedSnapshot[];
+    },
+    enabled: isAuthenticated && isAdmin(),
+  });
+}
+
+/**
+ * Restore an archived snapshot via the restore-snapshot Edge Function (admin JWT)
+ */
+export function useRestoreSnapshot() {
+  const { jwt } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (snapshotDate: string) => {
+      if (!jwt) throw new Error('Not authenticated');
+      return postAdminFunction<RestoreSnapshotResult>(EDGE_FUNCTIONS.RESTORE_SNAPSHOT, jwt, { snapshot_date: snapshotDate });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['snapshotMetadata'] });
+      queryClient.invalidateQueries({ queryKey: ['leaderboardPage'] });
+      queryClient.invalidateQueries({ queryKey: ['cachedLeaderboard'] });
+      queryClient.invalidateQueries({ queryKey: ['archivedSnapshots'] });
+      queryClient.invalidateQueries({ queryKey: ['adminAuditLog'] });
+    },
+  });
+}
+
+/**
+ * Run update-player-data manually (admin JWT)
+ * dryRun fetches from the bot API without saving anything.
+ */
+export function useTriggerPlayerDataUpdate() {
+  const { jwt } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (options: { dryRun: boolean; forceUpdate: boolean; sendEmail: boolean }) => {
+      if (!jwt) throw new Error('Not authenticated');
+      return postAdminFunction<UpdatePlayerDataResult>(EDGE_FUNCTIONS.UPDATE_PLAYER_DATA, jwt, options);
+    },
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['snapshotMetadata'] });
+        queryClient.invalidateQueries({ queryKey: ['snapshotSaveState'] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['adminAuditLog'] });
+    },
+  });
+}
+
+/**
+ * Fetch excluded players and exclusion candidates via manage-excluded-players
+ */
+export function useExcludedPlayers() {
+  const { isAuthenticated, isAdmin, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['excludedPlayers', jwt],
+    queryFn: async () => {
+      if (!jwt) throw new Error('Not authenticated');
+
+      const response = await fetch(`${ENV.SUPABASE_URL}${EDGE_FUNCTIONS.MANAGE_EXCLUDED_PLAYERS}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${jwt}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to fetch excluded players: ${response.status}`);
+      }
+
+      return await response.json() as ExcludedPlayersResponse;
+    },
+    enabled: isAuthenticated && isAdmin(),
+  });
+}
+
+/**
+ * Add or update an exclusion (admin JWT)
+ * expiresAt is an ISO timestamp, or null for a permanent exclusion.
+ * expireOnSync ends the exclusion once the player is back in the sync window.
+ */
+export function useExcludePlayer() {
+  const { jwt } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (exclusion: {
+      discordId: string;
+      reason: string;
+      notes?: string;
+      expiresAt?: string | null;
+      expireOnSync?: boolean;
+    }) => {
+      if (!jwt) throw new Error('Not authenticated');
+      return postAdminFunction<{ success: boolean; message: string }>(EDGE_FUNCTIONS.MANAGE_EXCLUDED_PLAYERS, jwt, {
+        discord_id: exclusion.discordId,
+        reason: exclusion.reason,
+        notes: exclusion.notes,
+        expires_at: exclusion.expiresAt ?? null,
+        expire_on_sync: exclusion.expireOnSync ?? false,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['excludedPlayers'] });
+      queryClient.invalidateQueries({ queryKey: ['adminAuditLog'] });
+    },
+  });
+}
+
+/**
+ * Remove an exclusion (admin JWT)
+ */
+export function useRemoveExclusion() {
+  const { jwt } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (discordId: string) => {
+      if (!jwt) throw new Error('Not authenticated');
+      return postAdminFunction<{ success: boolean; message: string }>(
+        EDGE_FUNCTIONS.MANAGE_EXCLUDED_PLAYERS,
+        jwt,
+        { discord_id: discordId },
+        'DELETE'
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['excludedPlayers'] });
+      queryClient.invalidateQueries({ queryKey: ['adminAuditLog'] });
+    },
+  });
+}
+
+/**
+ * Filters for the admin audit log. Dates are YYYY-MM-DD (inclusive).
+ */
+export interface AuditLogFilters {
+  action?: string | null;
+  performedBy?: string | null;
+  from?: string | null;
+  to?: string | null;
+  failedOnly?: boolean;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Fetch one page of admin_audit_log, newest first
+ *
+ * SECURITY: RLS only allows admins to read admin_audit_log
+ */
+export function useAdminAuditLog(filters: AuditLogFilters) {
+  const { getAuthenticatedClient, isAuthenticated, isAdmin, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['adminAuditLog', filters, jwt],
+    queryFn: async () => {
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const offset = (filters.page - 1) * filters.pageSize;
+      let query = client
+        .from(TABLE_ADMIN_AUDIT_LOG)
+        .select('*', { count: 'exact' });
+
+      if (filters.action) query = query.eq('action', filters.action);
+      if (filters.performedBy) query = query.ilike('performed_by', `%${filters.performedBy}%`);
+      if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00Z`);
+      if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59.999Z`);
+      if (filters.failedOnly) query = query.eq('success', false);
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + filters.pageSize - 1);
+
+      if (error) throw error;
+      return { entries: (data || []) as AdminAuditLogEntry[], totalCount: count ?? 0 };
+    },
+    enabled: isAuthenticated && isAdmin(),
+    placeholderData: previous => previous,
+  });
+}
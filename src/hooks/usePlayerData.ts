@@ -1,8 +1,8 @@
 // Custom hooks for data fetching using React Query
 
 import { useQuery } from '@tanstack/react-query';
-import { TABLE_PLAYER_SNAPSHOTS, TABLE_SNAPSHOT_METADATA, TABLE_WEEKLY_STATISTICS, VIEW_UNIQUE_PLAYERS_LATEST, CACHE_TTL, ENV, EDGE_FUNCTIONS } from '@/config/constants';
-import type { PlayerSnapshot, SnapshotMetadata, PlayerListItem, WeeklyStatistics } from '@/types';
+import { TABLE_PLAYER_SNAPSHOTS, TABLE_SNAPSHOT_METADATA, TABLE_WEEKLY_STATISTICS, TABLE_EGGDAY_GAINS, TABLE_PLAYER_NAME_HISTORY, CACHE_TTL, ENV, EDGE_FUNCTIONS } from '@/config/constants';
+import type { PlayerSnapshot, SnapshotMetadata, WeeklyStatistics, EggdayGain, EggdayLeaderboardEntry, PlayerRankHistoryEntry, PlayerNameHistoryEntry, PlayerSearchResult, TopGainerEntry, GradeStanding, GuildStanding } from '@/types';
 import { useAuth } from '@/hooks/useAuth';
 import { preprocessPlayerData } from '@/utils/dataProcessing';
 
@@ -46,55 +46,6 @@ export function usePlayerSnapshots(discordId: string | null) {
   });
 }
 
-// Fetch player list for autocomplete using materialized view (admin only - requires proper RLS)
-export function usePlayerList() {
-  const { getAuthenticatedClient, isAuthenticated, jwt } = useAuth();
-
-  return useQuery({
-    // Include jwt in queryKey to invalidate cache when auth changes
-    queryKey: ['playerList', jwt],
-    queryFn: async () => {
-      const client = getAuthenticatedClient();
-      if (!client) throw new Error('Not authenticated');
-      
-      // Use the materialized view to get unique players efficiently
-      // Paginate through all results like the Streamlit version
-      const allData: Array<{ discord_id: string; ign: string; discord_name: string }> = [];
-      const pageSize = 1000;
-      const maxPages = 100; // Safety limit to prevent infinite loops
-
-      for (let page = 0; page < maxPages; page++) {
-        const offset = page * pageSize;
-        const { data, error } = await client
-          .from(VIEW_UNIQUE_PLAYERS_LATEST)
-          .select('discord_id, ign, discord_name')
-          .order('ign')
-          .range(offset, offset + pageSize - 1);
-
-        if (error) throw error;
-        if (!data || data.length === 0) break;
-
-        allData.push(...data);
-        
-        // Break if we got fewer rows than requested (last page)
-        if (data.length < pageSize) break;
-      }
-
-      // Create display labels matching Streamlit format: "IGN (discord_name) - discord_id"
-      const uniquePlayers: PlayerListItem[] = allData.map((row) => ({
-        label: `${row.ign} (${row.discord_name}) - ${row.discord_id}`,
-        discordId: row.discord_id,
-      }));
-
-      // Sort by label (case-insensitive)
-      return uniquePlayers.sort((a, b) => a.label.toLowerCase().localeCompare(b.label.toLowerCase()));
-    },
-    // Only run when authenticated
-    enabled: isAuthenticated,
-    staleTime: CACHE_TTL.PLAYER_LIST,
-  });
-}
-
 // Fetch latest snapshot date
 export function useLatestSnapshotDate() {
   const { getAuthenticatedClient, isAuthenticated, jwt } = useAuth();
@@ -249,10 +200,17 @@ export interface CachedLeaderboardResponse {
     grade: string;
     is_guest: boolean;
     active: boolean;
+    gains_saturday: number | null;
+    max_mystical_eggs: number | null;
   }>;
   lastUpdated: string;
   playerCount: number;
   fromCache: boolean;
+  snapshotDate: string | null;
+  // Live leaderboard only (not returned for saved snapshots)
+  cacheAgeSeconds?: number | null;
+  refreshing?: boolean; // Another request is refreshing; this is the previous data
+  refreshStatus?: 'fresh' | 'refreshed' | 'refreshing' | 'refresh_failed';
 }
 
 /**
@@ -261,21 +219,32 @@ export interface CachedLeaderboardResponse {
  * This hook fetches current/live player data with automatic caching:
  * - If data is fresh (< 15 minutes old): returns cached data instantly
  * - If data is stale (>= 15 minutes old): fetches fresh data from bot API
+ * - If another request is already refreshing: returns the stale data with
+ *   `refreshing: true`, and this hook checks again shortly
+ * 
+ * @param snapshotDate - Saved snapshot date to view instead of live data (optional)
+ * @param options.enabled - Set to false to skip fetching (e.g. no comparison date selected)
  * 
  * The Edge Function handles:
  * - JWT validation
  * - Access level filtering (non-admins don't see num_prestiges)
  * - Cache management
  */
-export function useCachedLeaderboard() {
+export function useCachedLeaderboard(snapshotDate?: string | null, options: { enabled?: boolean } = {}) {
   const { isAuthenticated, jwt } = useAuth();
+  const { enabled = true } = options;
 
   return useQuery({
-    queryKey: ['cachedLeaderboard', jwt],
+    queryKey: ['cachedLeaderboard', snapshotDate, jwt],
     queryFn: async () => {
       if (!jwt) throw new Error('Not authenticated');
 
-      const edgeFunctionUrl = `${ENV.SUPABASE_URL}${EDGE_FUNCTIONS.GET_LEADERBOARD}`;
+      const params = new URLSearchParams();
+      if (snapshotDate) {
+        params.set('snapshot_date', snapshotDate);
+      }
+
+      const edgeFunctionUrl = `${ENV.SUPABASE_URL}${EDGE_FUNCTIONS.GET_LEADERBOARD}?${params}`;
       
       const response = await fetch(edgeFunctionUrl, {
         method: 'GET',
@@ -297,10 +266,92 @@ export function useCachedLeaderboard() {
       }
       return data;
     },
-    enabled: isAuthenticated && !!jwt,
-    staleTime: CACHE_TTL.LATEST_SNAPSHOT,
-    // Refetch every 5 minutes to check for updates
-    refetchInterval: 5 * 60 * 1000,
+    enabled: isAuthenticated && !!jwt && enabled,
+    staleTime: snapshotDate ? CACHE_TTL.PLAYER_DATA : CACHE_TTL.LATEST_SNAPSHOT,
+    // Refetch every 5 minutes to check for updates (saved snapshots never change),
+    // or after 15 seconds while another request is refreshing the cache
+    refetchInterval: (query) => {
+      if (snapshotDate) return false;
+      return query.state.data?.refreshing ? 15 * 1000 : 5 * 60 * 1000;
+    },
+  });
+}
+
+/**
+ * Server-side sort/pagination options for the leaderboard Edge Function
+ */
+export interface LeaderboardPageOptions {
+  snapshotDate?: string | null;
+  sort?: string;
+  direction?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+  activeOnly?: boolean;
+  grades?: string[];
+  fields?: Array<keyof CachedLeaderboardResponse['players'][number]>;
+}
+
+/**
+ * Ranked page of the leaderboard from the Edge Function
+ */
+export interface LeaderboardPageResponse extends Omit<CachedLeaderboardResponse, 'players'> {
+  players: Array<Partial<CachedLeaderboardResponse['players'][number]> & { discord_id: string; rank: number }>;
+  totalCount: number;
+  offset: number;
+  limit: number;
+  sort: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Fetch one ranked page of the leaderboard
+ * 
+ * Sorting, ranking and paging happen in the Edge Function, so only the
+ * requested rows (and optionally only the requested fields) are transferred.
+ * Leaderboards shows this first page before it requests the full leaderboard.
+ */
+export function useLeaderboardPage(pageOptions: LeaderboardPageOptions, options: { enabled?: boolean } = {}) {
+  const { isAuthenticated, jwt } = useAuth();
+  const { enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['leaderboardPage', pageOptions, jwt],
+    queryFn: async () => {
+      if (!jwt) throw new Error('Not authenticated');
+
+      const params = new URLSearchParams();
+      if (pageOptions.snapshotDate) params.set('snapshot_date', pageOptions.snapshotDate);
+      params.set('sort', pageOptions.sort || 'eb');
+      if (pageOptions.direction) params.set('direction', pageOptions.direction);
+      if (pageOptions.offset) params.set('offset', String(pageOptions.offset));
+      if (pageOptions.limit) params.set('limit', String(pageOptions.limit));
+      if (pageOptions.activeOnly) params.set('active_only', 'true');
+      if (pageOptions.grades && pageOptions.grades.length > 0) params.set('grade', pageOptions.grades.join(','));
+      if (pageOptions.fields && pageOptions.fields.length > 0) params.set('fields', pageOptions.fields.join(','));
+
+      const response = await fetch(`${ENV.SUPABASE_URL}${EDGE_FUNCTIONS.GET_LEADERBOARD}?${params}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${jwt}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to fetch leaderboard page: ${response.status}`);
+      }
+
+      const data: LeaderboardPageResponse = await response.json();
+      for (const player of data.players) {
+        if (player.grade) {
+          player.grade = player.grade.toUpperCase();
+        }
+      }
+      return data;
+    },
+    enabled: isAuthenticated && !!jwt && enabled,
+    staleTime: pageOptions.snapshotDate ? CACHE_TTL.PLAYER_DATA : CACHE_TTL.LATEST_SNAPSHOT,
   });
 }
 
@@ -309,6 +360,8 @@ export function useCachedLeaderboard() {
  */
 export interface PlayerCurrentStatsResponse {
   player: CachedLeaderboardResponse['players'][number] | null;
+  gradeStanding: GradeStanding | null;
+  guildStanding: GuildStanding | null;
   lastUpdated: string;
   fromCache: boolean;
 }
@@ -363,6 +416,9 @@ export function usePlayerCurrentStats(discordId?: string | null) {
       if (data.player && data.player.grade) {
         data.player.grade = data.player.grade.toUpperCase();
       }
+      if (data.gradeStanding) {
+        data.gradeStanding.grade = data.gradeStanding.grade.toUpperCase();
+      }
       
       return data;
     },
@@ -372,3 +428,237 @@ export function usePlayerCurrentStats(discordId?: string | null) {
     refetchInterval: 10 * 60 * 1000,
   });
 }
+
+/**
+ * Fetch a player's Egg Day gains (one row per year)
+ *
+ * SECURITY: RLS policy on eggday_gains mirrors player_snapshots:
+ * users only see their own rows, admins see everyone's.
+ */
+export function usePlayerEggdayGains(discordId: string | null) {
+  const { getAuthenticatedClient, isAuthenticated, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['playerEggdayGains', discordId, jwt],
+    queryFn: async () => {
+      if (!discordId) return [];
+
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const { data, error } = await client
+        .from(TABLE_EGGDAY_GAINS)
+        .select('*')
+        .eq('discord_id', discordId)
+        .order('year', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as EggdayGain[];
+    },
+    enabled: isAuthenticated && !!discordId,
+    staleTime: CACHE_TTL.PLAYER_DATA,
+  });
+}
+
+/**
+ * Egg Day Leaderboard Response from Edge Function
+ */
+export interface EggdayLeaderboardResponse {
+  year: number | null;
+  availableYears: number[];
+  entries: EggdayLeaderboardEntry[];
+}
+
+/**
+ * Fetch the community Egg Day leaderboard for a year
+ *
+ * @param year - Egg Day year to fetch (optional - defaults to the most recent year)
+ *
+ * The Edge Function handles:
+ * - JWT validation
+ * - Joining player names onto every eggday_gains row
+ * - Access level filtering (non-admins don't see prestiges)
+ */
+export function useEggdayLeaderboard(year?: number | null) {
+  const { isAuthenticated, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['eggdayLeaderboard', year, jwt],
+    queryFn: async () => {
+      if (!jwt) throw new Error('Not authenticated');
+
+      const params = new URLSearchParams();
+      if (year) {
+        params.set('year', String(year));
+      }
+
+      const edgeFunctionUrl = `${ENV.SUPABASE_URL}${EDGE_FUNCTIONS.GET_EGGDAY_LEADERBOARD}?${params}`;
+
+      const response = await fetch(edgeFunctionUrl, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${jwt}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to fetch Egg Day leaderboard: ${response.status}`);
+      }
+
+      const data: EggdayLeaderboardResponse = await response.json();
+      return data;
+    },
+    enabled: isAuthenticated && !!jwt,
+    staleTime: CACHE_TTL.PLAYER_DATA,
+  });
+}
+
+/**
+ * Fetch a player's guild rank at every snapshot
+ *
+ * Ranks are computed server-side by the get_player_rank_history SQL function
+ * the same way as the Leaderboards page: among active players only, with
+ * competition ranking (1, 1, 3). Snapshots where the player was inactive
+ * are left out.
+ *
+ * SECURITY: the function only lets users request their own history;
+ * admins can request anyone's. Prestige rank is null for non-admins.
+ */
+export function usePlayerRankHistory(discordId: string | null) {
+  const { getAuthenticatedClient, isAuthenticated, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['playerRankHistory', discordId, jwt],
+    queryFn: async () => {
+      if (!discordId) return [];
+
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const { data, error } = await client.rpc('get_player_rank_history', { p_discord_id: discordId });
+
+      if (error) throw error;
+      return (data || []) as PlayerRankHistoryEntry[];
+    },
+    enabled: isAuthenticated && !!discordId,
+    staleTime: CACHE_TTL.PLAYER_DATA,
+  });
+}
+
+/**
+ * Search players by current or historic name (or Discord ID) on the server
+ * 
+ * Uses the search_players RPC (trigram matching, admin only) so the whole
+ * roster doesn't have to be downloaded for autocomplete.
+ * Queries shorter than 2 characters don't run.
+ */
+export function usePlayerSearch(query: string, limit: number = 10) {
+  const { getAuthenticatedClient, isAuthenticated, jwt } = useAuth();
+  const trimmedQuery = query.trim();
+
+  return useQuery({
+    queryKey: ['playerSearch', trimmedQuery, limit, jwt],
+    queryFn: async () => {
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const { data, error } = await client.rpc('search_players', { p_query: trimmedQuery, p_limit: limit });
+
+      if (error) throw error;
+      return (data || []) as PlayerSearchResult[];
+    },
+    enabled: isAuthenticated && trimmedQuery.length >= 2,
+    staleTime: CACHE_TTL.PLAYER_SEARCH,
+    placeholderData: previous => previous,
+  });
+}
+
+/**
+ * Fetch every IGN, display name and Discord name a player has been seen with
+ * 
+ * SECURITY: RLS allows users to read their own history and admins to read anyone's.
+ * Sorted oldest first so it can be rendered as a timeline.
+ */
+export function usePlayerNameHistory(discordId: string | null) {
+  const { getAuthenticatedClient, isAuthenticated, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['playerNameHistory', discordId, jwt],
+    queryFn: async () => {
+      if (!discordId) return [];
+
+      const client = getAuthenticatedClient();
+      if (!client) throw new Error('Not authenticated');
+
+      const { data, error } = await client
+        .from(TABLE_PLAYER_NAME_HISTORY)
+        .select('discord_id, name_type, name, first_seen_at, last_seen_at')
+        .eq('discord_id', discordId)
+        .order('first_seen_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as PlayerNameHistoryEntry[];
+    },
+    enabled: isAuthenticated && !!discordId,
+    staleTime: CACHE_TTL.PLAYER_DATA,
+  });
+}
+
+/**
+ * Top Gainers Response from Edge Function
+ */
+export interface TopGainersResponse {
+  from: string;
+  to: string;
+  playerCount: number;
+  entries: TopGainerEntry[];
+}
+
+/**
+ * Fetch per-player gains between two saved snapshots
+ *
+ * @param fromDate - Earlier snapshot date
+ * @param toDate - Later snapshot date
+ *
+ * The Edge Function handles:
+ * - JWT validation
+ * - Joining both snapshots and computing deltas
+ * - Access level filtering (non-admins don't see num_prestiges)
+ */
+export function useTopGainers(fromDate: string | null, toDate: string | null) {
+  const { isAuthenticated, jwt } = useAuth();
+
+  return useQuery({
+    queryKey: ['topGainers', fromDate, toDate, jwt],
+    queryFn: async () => {
+      if (!jwt) throw new Error('Not authenticated');
+
+      const params = new URLSearchParams({ from: fromDate as string, to: toDate as string });
+      const edgeFunctionUrl = `${ENV.SUPABASE_URL}${EDGE_FUNCTIONS.GET_TOP_GAINERS}?${params}`;
+
+      const response = await fetch(edgeFunctionUrl, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${jwt}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to fetch top gainers: ${response.status}`);
+      }
+
+      const data: TopGainersResponse = await response.json();
+      for (const entry of data.entries) {
+        // Capitalize grade for consistency
+        entry.grade = entry.grade.toUpperCase();
+      }
+      return data;
+    },
+    enabled: isAuthenticated && !!jwt && !!fromDate && !!toDate,
+    staleTime: CACHE_TTL.PLAYER_DATA,
+  });
+}
@@ -0,0 +1,201 @@
+import { Fragment, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAdminAuditLog } from '@/hooks/useAdmin';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import ErrorMessage from '@/components/ErrorMessage';
+import { formatLastUpdated } from '@/utils/formatters';
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<string, string> = {
+  delete_snapshot: 'Delete snapshot',
+  restore_snapshot: 'Restore snapshot',
+  purge_archived_snapshots: 'Purge archived snapshots',
+  update_player_data: 'Player data update',
+  exclude_player: 'Exclude player',
+  update_excluded_player: 'Update exclusion',
+  unexclude_player: 'Remove exclusion',
+};
+
+/**
+ * Admin audit log viewer with filters kept in the query string
+ */
+export default function AdminAuditLog() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const action = searchParams.get('action');
+  const performedBy = searchParams.get('by') || '';
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  const failedOnly = searchParams.get('failed') === '1';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Set or clear query params; changing a filter goes back to page 1
+  const updateParams = (updates: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value === null || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, value);
+        }
+      });
+      if (!('page' in updates)) {
+        next.delete('page');
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const { data, isLoading, error, refetch } = useAdminAuditLog({
+    action,
+    performedBy: performedBy.trim() || null,
+    from,
+    to,
+    failedOnly,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.totalCount ?? 0) / PAGE_SIZE));
+
+  return (
+    <div className="container">
+      <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Admin Audit Log</h1>
+
+      {/* Filters */}
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        <h3 style={{ marginBottom: '1rem' }}>Filters</h3>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Action:</label>
+            <select value={action ?? ''} onChange={(e) => updateParams({ action: e.target.value || null })} className="select">
+              <option value="">All actions</option>
+              {Object.entries(ACTION_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Performed by:</label>
+            <input
+              type="text"
+              value={performedBy}
+              onChange={(e) => updateParams({ by: e.target.value })}
+              placeholder="Discord ID or method"
+              className="input"
+            />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>From:</label>
+            <input type="date" value={from ?? ''} onChange={(e) => updateParams({ from: e.target.value })} className="input" />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>To:</label>
+            <input type="date" value={to ?? ''} onChange={(e) => updateParams({ to: e.target.value })} className="input" />
+          </div>
+          <div style={{ display: 'flex', alignItems: 'flex-end' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={failedOnly}
+                onChange={(e) => updateParams({ failed: e.target.checked ? '1' : null })}
+              />
+              Failures only
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner text="Loading audit log..." />
+      ) : error ? (
+        <ErrorMessage
+          title="Failed to Load Audit Log"
+          message={error instanceof Error ? error.message : 'An unknown error occurred'}
+          onRetry={() => refetch()}
+        />
+      ) : !data || data.entries.length === 0 ? (
+        <div className="info-message">No audit log entries match these filters.</div>
+      ) : (
+        <div className="card" style={{ overflowX: 'auto' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Action</th>
+                <th>Performed By</th>
+                <th>Auth</th>
+                <th>Parameters</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.entries.map(entry => (
+                <Fragment key={entry.id}>
+                  <tr>
+                    <td>{formatLastUpdated(entry.created_at)}</td>
+                    <td>{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                    <td>{entry.performed_by}</td>
+                    <td><span className="tag">{entry.auth_method}</span></td>
+                    <td style={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+                      {Object.entries(entry.parameters)
+                        .filter(([, value]) => value !== null && value !== undefined)
+                        .map(([key, value]) => `${key}=${String(value)}`)
+                        .join(', ')}
+                    </td>
+                    <td style={{ color: entry.success ? '#4ade80' : '#f87171' }}>
+                      {entry.success ? 'Success' : 'Failed'}
+                    </td>
+                    <td>
+                      {entry.result && (
+                        <button
+                          onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                          className="button button-secondary"
+                        >
+                          {expandedId === entry.id ? 'Hide' : 'Details'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === entry.id && entry.result && (
+                    <tr>
+                      <td colSpan={7}>
+                        <pre style={{ margin: 0, fontSize: '0.8rem', whiteSpace: 'pre-wrap' }}>
+                          {JSON.stringify(entry.result, null, 2)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Pagination */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '1rem' }}>
+            <button
+              onClick={() => updateParams({ page: String(page - 1) })}
+              disabled={page <= 1}
+              className="button button-secondary"
+            >
+              ← Previous
+            </button>
+            <span>
+              Page {page} of {totalPages} ({data.totalCount} entries)
+            </span>
+            <button
+              onClick={() => updateParams({ page: String(page + 1) })}
+              disabled={page >= totalPages}
+              className="button button-secondary"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
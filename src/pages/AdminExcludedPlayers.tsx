@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { useExcludedPlayers, useExcludePlayer, useRemoveExclusion } from '@/hooks/useAdmin';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import ErrorMessage from '@/components/ErrorMessage';
+import PlayerSearch from '@/components/PlayerSearch';
+import { formatDate, formatLastUpdated } from '@/utils/formatters';
+
+const DEFAULT_REASON = 'updatedAt field not updating';
+
+/**
+ * Admin page for the excluded_players table used by the snapshot sync check
+ */
+export default function AdminExcludedPlayers() {
+  const [discordId, setDiscordId] = useState('');
+  const [reason, setReason] = useState(DEFAULT_REASON);
+  const [notes, setNotes] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [expireOnSync, setExpireOnSync] = useState(false);
+  const [removeTarget, setRemoveTarget] = useState<string | null>(null);
+
+  const { data, isLoading, error, refetch } = useExcludedPlayers();
+  const excludePlayer = useExcludePlayer();
+  const removeExclusion = useRemoveExclusion();
+
+  if (isLoading) {
+    return <LoadingSpinner text="Loading excluded players..." />;
+  }
+
+  if (error || !data) {
+    return (
+      <ErrorMessage
+        title="Failed to Load Excluded Players"
+        message={error instanceof Error ? error.message : 'An unknown error occurred'}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  const handleExclude = () => {
+    if (!discordId.trim() || !reason.trim()) return;
+    excludePlayer.mutate(
+      {
+        discordId: discordId.trim(),
+        reason: reason.trim(),
+        notes: notes.trim() || undefined,
+        // Exclusion ends at the start of the chosen day (UTC)
+        expiresAt: expiresOn ? `${expiresOn}T00:00:00Z` : null,
+        expireOnSync,
+      },
+      {
+        onSuccess: () => {
+          setDiscordId('');
+          setReason(DEFAULT_REASON);
+          setNotes('');
+          setExpiresOn('');
+          setExpireOnSync(false);
+        },
+      }
+    );
+  };
+
+  // One-click exclusion for chronically desynced players; ends when they sync again
+  const handleQuickExclude = (id: string, consecutiveMisses: number) => {
+    excludePlayer.mutate({
+      discordId: id,
+      reason: `Out of sync for ${consecutiveMisses} consecutive checks`,
+      expireOnSync: true,
+    });
+  };
+
+  const handleRemove = (id: string) => {
+    removeExclusion.mutate(id, {
+      onSuccess: () => setRemoveTarget(null),
+    });
+  };
+
+  return (
+    <div className="container">
+      <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Excluded Players</h1>
+
+      <div className="info-message" style={{ marginBottom: '2rem' }}>
+        Excluded players are ignored when checking whether everyone has updated together before a snapshot is saved.
+        Exclude players whose save data stopped updating, and remove them once it is fixed.
+      </div>
+
+      {/* Add Exclusion */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Add Exclusion</h2>
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        <div style={{ marginBottom: '1rem' }}>
+          <PlayerSearch onSelect={setDiscordId} />
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem', marginBottom: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Discord ID:</label>
+            <input type="text" value={discordId} onChange={(e) => setDiscordId(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Reason:</label>
+            <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Notes (optional):</label>
+            <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Expires on (optional):</label>
+            <input type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} className="input" />
+          </div>
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', marginBottom: '1rem' }}>
+          <input type="checkbox" checked={expireOnSync} onChange={(e) => setExpireOnSync(e.target.checked)} />
+          End the exclusion automatically once the player syncs again
+        </label>
+        <button
+          onClick={handleExclude}
+          disabled={!discordId.trim() || !reason.trim() || excludePlayer.isPending}
+          className="button button-primary"
+        >
+          {excludePlayer.isPending ? 'Saving...' : 'Exclude player'}
+        </button>
+        {excludePlayer.error && (
+          <div className="warning-message" style={{ marginTop: '1rem' }}>
+            {excludePlayer.error instanceof Error ? excludePlayer.error.message : 'Failed to save exclusion'}
+          </div>
+        )}
+        {excludePlayer.data && (
+          <div className="info-message" style={{ marginTop: '1rem' }}>{excludePlayer.data.message}</div>
+        )}
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Current Exclusions */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Current Exclusions ({data.excluded.length})</h2>
+
+      {removeExclusion.error && (
+        <div className="warning-message" style={{ marginBottom: '1rem' }}>
+          {removeExclusion.error instanceof Error ? removeExclusion.error.message : 'Failed to remove exclusion'}
+        </div>
+      )}
+
+      {data.excluded.length === 0 ? (
+        <div className="info-message">No players are excluded.</div>
+      ) : (
+        <div className="card" style={{ overflowX: 'auto', marginBottom: '2rem' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>Reason</th>
+                <th>Last Updated (Bot API)</th>
+                <th>Excluded</th>
+                <th>Excluded By</th>
+                <th>Expires</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.excluded.map(player => (
+                <tr key={player.discord_id}>
+                  <td>
+                    <div>{player.ign ?? 'Not in bot API'}</div>
+                    <div style={{ fontSize: '0.8rem', color: 'var(--color-text-secondary)' }}>{player.discord_id}</div>
+                  </td>
+                  <td>
+                    <div>{player.reason}</div>
+                    {player.notes && (
+                      <div style={{ fontSize: '0.8rem', color: 'var(--color-text-secondary)' }}>{player.notes}</div>
+                    )}
+                  </td>
+                  <td>{player.updated_at ? formatLastUpdated(player.updated_at) : 'Unknown'}</td>
+                  <td>{formatLastUpdated(player.excluded_at)}</td>
+                  <td>{player.excluded_by ?? 'Unknown'}</td>
+                  <td style={player.expired ? { color: '#f87171' } : undefined}>
+                    {player.expires_at
+                      ? `${formatDate(player.expires_at)}${player.expired ? ' (expired)' : ''}`
+                      : player.expire_on_sync ? 'When synced' : 'Never'}
+                  </td>
+                  <td>
+                    {removeTarget === player.discord_id ? (
+                      <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <button
+                          onClick={() => handleRemove(player.discord_id)}
+                          disabled={removeExclusion.isPending}
+                          className="button button-primary"
+                        >
+                          {removeExclusion.isPending ? 'Removing...' : 'Confirm'}
+                        </button>
+                        <button onClick={() => setRemoveTarget(null)} className="button button-secondary">
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <button onClick={() => setRemoveTarget(player.discord_id)} className="button button-secondary">
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Chronic Desync */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Chronic Desync ({data.chronicDesync.length})</h2>
+      <p style={{ marginBottom: '1rem', color: 'var(--color-text-secondary)' }}>
+        Players outside the sync window in the last {data.desyncStreakThreshold}+ snapshot checks in a row.
+        Excluding them here ends the exclusion automatically once they sync again.
+      </p>
+
+      {data.chronicDesync.length === 0 ? (
+        <div className="info-message" style={{ marginBottom: '2rem' }}>No players are chronically out of sync.</div>
+      ) : (
+        <div className="card" style={{ overflowX: 'auto', marginBottom: '2rem' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>Checks in a Row</th>
+                <th>Out of Sync Since</th>
+                <th>Last Updated (Bot API)</th>
+                <th>Emailed</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.chronicDesync.map(streak => (
+                <tr key={streak.discord_id}>
+                  <td>
+                    <div>{streak.ign}</div>
+                    <div style={{ fontSize: '0.8rem', color: 'var(--color-text-secondary)' }}>{streak.discord_id}</div>
+                  </td>
+                  <td>{streak.consecutive_misses}</td>
+                  <td>{formatLastUpdated(streak.streak_started_at)}</td>
+                  <td>{streak.last_updated_at ? formatLastUpdated(streak.last_updated_at) : 'Unknown'}</td>
+                  <td>{streak.digest_sent_at ? formatLastUpdated(streak.digest_sent_at) : 'Not yet'}</td>
+                  <td>
+                    <button
+                      onClick={() => handleQuickExclude(streak.discord_id, streak.consecutive_misses)}
+                      disabled={excludePlayer.isPending}
+                      className="button button-primary"
+                    >
+                      Exclude
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Suggested Exclusions */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Suggested Exclusions</h2>
+      <p style={{ marginBottom: '1rem', color: 'var(--color-text-secondary)' }}>
+        Players outside the sync window on at least {data.candidateCriteria.minDays} different days
+        in the last {data.candidateCriteria.lookbackDays} days.
+      </p>
+
+      {data.candidates.length === 0 ? (
+        <div className="info-message">No players have repeatedly missed the sync window.</div>
+      ) : (
+        <div className="card" style={{ overflowX: 'auto' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>Days Missed</th>
+                <th>Times Missed</th>
+                <th>Last Missed</th>
+                <th>Last Updated (Bot API)</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.candidates.map(candidate => (
+                <tr key={candidate.discord_id}>
+                  <td>
+                    <div>{candidate.ign}</div>
+                    <div style={{ fontSize: '0.8rem', color: 'var(--color-text-secondary)' }}>{candidate.discord_id}</div>
+                  </td>
+                  <td>{candidate.days_missed}</td>
+                  <td>{candidate.miss_count}</td>
+                  <td>{formatLastUpdated(candidate.last_missed_at)}</td>
+                  <td>{candidate.updated_at ? formatLastUpdated(candidate.updated_at) : 'Unknown'}</td>
+                  <td>
+                    <button
+                      onClick={() => {
+                        setDiscordId(candidate.discord_id);
+                        setReason(DEFAULT_REASON);
+                        window.scrollTo({ top: 0, behavior: 'smooth' });
+                      }}
+                      className="button button-secondary"
+                    >
+                      Exclude...
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
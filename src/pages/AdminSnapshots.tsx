@@ -0,0 +1,461 @@
+import { useState } from 'react';
+import { useSnapshotMetadata, useLeaderboardPage } from '@/hooks/usePlayerData';
+import {
+  useSnapshotSaveState,
+  useDeleteSnapshot,
+  useTriggerPlayerDataUpdate,
+  useArchivedSnapshots,
+  useRestoreSnapshot,
+  useSnapshotDecisionLog,
+} from '@/hooks/useAdmin';
+import { SyncTimelineChart } from '@/components/charts';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import ErrorMessage from '@/components/ErrorMessage';
+import { bigNumberToString, formatDate, formatInteger, formatLastUpdated } from '@/utils/formatters';
+
+const PREVIEW_SIZE = 10;
+const HISTORY_RANGES = [1, 3, 7, 14, 30];
+const RECENT_DECISIONS = 20;
+
+/**
+ * Admin console for saved snapshots and the snapshot decision state
+ */
+export default function AdminSnapshots() {
+  const [previewDate, setPreviewDate] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [dryRun, setDryRun] = useState(true);
+  const [forceUpdate, setForceUpdate] = useState(false);
+  const [sendEmail, setSendEmail] = useState(false);
+  const [historyDays, setHistoryDays] = useState(7);
+
+  const { data: snapshotMetadata, isLoading, error, refetch } = useSnapshotMetadata();
+  const { data: saveState, isLoading: isLoadingState, error: stateError } = useSnapshotSaveState();
+  const { data: previewData, isLoading: isLoadingPreview } = useLeaderboardPage(
+    { snapshotDate: previewDate, limit: PREVIEW_SIZE, fields: ['ign', 'display_name', 'grade', 'eb', 'se'] },
+    { enabled: !!previewDate }
+  );
+  const { data: decisionLog, isLoading: isLoadingLog, error: logError } = useSnapshotDecisionLog(historyDays);
+  const { data: archivedSnapshots, isLoading: isLoadingArchive, error: archiveError } = useArchivedSnapshots();
+  const deleteSnapshot = useDeleteSnapshot();
+  const restoreSnapshot = useRestoreSnapshot();
+  const triggerUpdate = useTriggerPlayerDataUpdate();
+
+  if (isLoading) {
+    return <LoadingSpinner text="Loading snapshots..." />;
+  }
+
+  if (error) {
+    return (
+      <ErrorMessage
+        title="Failed to Load Snapshots"
+        message={error instanceof Error ? error.message : 'An unknown error occurred'}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  // Newest snapshot first
+  const snapshots = [...(snapshotMetadata || [])].reverse();
+  const decision = saveState?.last_decision_result ?? null;
+
+  const handleDelete = () => {
+    if (!deleteTarget || deleteConfirmation !== deleteTarget) return;
+    deleteSnapshot.mutate(deleteTarget, {
+      onSuccess: () => {
+        if (previewDate === deleteTarget) setPreviewDate(null);
+        setDeleteTarget(null);
+        setDeleteConfirmation('');
+      },
+    });
+  };
+
+  return (
+    <div className="container">
+      <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Snapshot Management</h1>
+
+      {/* Snapshot Decision */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Last Snapshot Decision</h2>
+      {isLoadingState ? (
+        <LoadingSpinner text="Loading decision state..." />
+      ) : stateError ? (
+        <div className="warning-message" style={{ marginBottom: '2rem' }}>
+          Failed to load decision state: {stateError instanceof Error ? stateError.message : 'Unknown error'}
+        </div>
+      ) : !saveState || !decision ? (
+        <div className="info-message" style={{ marginBottom: '2rem' }}>No snapshot decision has been recorded yet.</div>
+      ) : (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem', marginBottom: '1rem' }}>
+            <div className="metric-card">
+              <div className="metric-label">Decision</div>
+              <div className="metric-value" style={{ fontSize: '1.25rem', color: decision.shouldSave ? '#4ade80' : 'inherit' }}>
+                {decision.shouldSave ? 'Saved' : decision.isPendingSync ? 'Pending sync' : 'Not saved'}
+              </div>
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                {saveState.last_decision_at ? formatLastUpdated(saveState.last_decision_at) : 'Unknown'}
+              </div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-label">Sync</div>
+              <div className="metric-value" style={{ fontSize: '1.25rem' }}>{decision.syncPercentage.toFixed(2)}%</div>
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                {decision.playersInSyncWindow} of {decision.totalNonExcludedPlayers} players ({decision.excludedPlayerCount} excluded)
+              </div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-label">Last Saved</div>
+              <div className="metric-value" style={{ fontSize: '1.25rem' }}>
+                {saveState.last_saved_at ? formatLastUpdated(saveState.last_saved_at) : 'Never'}
+              </div>
+              <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                {decision.hoursSinceLastSave.toFixed(1)} hours ago
+              </div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-label">Pending Sync Attempts</div>
+              <div className="metric-value" style={{ fontSize: '1.25rem' }}>{saveState.pending_sync_attempt_count}</div>
+              {saveState.pending_sync_first_attempt && (
+                <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                  since {formatLastUpdated(saveState.pending_sync_first_attempt)}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="info-message" style={{ marginBottom: '1rem' }}>
+            <strong>Reason:</strong> {decision.reason}
+          </div>
+          {decision.missingPlayers && decision.missingPlayers.length > 0 && (
+            <div className="card" style={{ overflowX: 'auto', marginBottom: '1rem' }}>
+              <h3 style={{ marginBottom: '1rem' }}>Missing Players ({decision.missingPlayers.length})</h3>
+              <table>
+                <thead>
+                  <tr>
+                    <th>IGN</th>
+                    <th>Discord ID</th>
+                    <th>Last Updated</th>
+                    <th>Behind (hours)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {decision.missingPlayers.map(player => (
+                    <tr key={player.discord_id}>
+                      <td>{player.ign}</td>
+                      <td>{player.discord_id}</td>
+                      <td>{formatLastUpdated(player.updatedAt)}</td>
+                      <td>{player.timeDifferenceHours.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Decision History */}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+        <h2 style={{ fontSize: '1.5rem' }}>Decision History</h2>
+        <select value={historyDays} onChange={(e) => setHistoryDays(Number(e.target.value))} className="select" style={{ maxWidth: '200px' }}>
+          {HISTORY_RANGES.map(days => (
+            <option key={days} value={days}>Last {days} {days === 1 ? 'day' : 'days'}</option>
+          ))}
+        </select>
+      </div>
+      {isLoadingLog ? (
+        <LoadingSpinner text="Loading decision history..." />
+      ) : logError ? (
+        <div className="warning-message">
+          Failed to load decision history: {logError instanceof Error ? logError.message : 'Unknown error'}
+        </div>
+      ) : !decisionLog || decisionLog.length === 0 ? (
+        <div className="info-message">No decisions logged in this period.</div>
+      ) : (
+        <>
+          <div className="card" style={{ marginBottom: '1rem' }}>
+            <SyncTimelineChart data={decisionLog} />
+          </div>
+          <div className="card" style={{ overflowX: 'auto' }}>
+            <h3 style={{ marginBottom: '1rem' }}>Latest {Math.min(RECENT_DECISIONS, decisionLog.length)} Decisions</h3>
+            <table>
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Sync</th>
+                  <th>Missing</th>
+                  <th>Outcome</th>
+                  <th>Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {decisionLog.slice(-RECENT_DECISIONS).reverse().map(entry => (
+                  <tr key={entry.id}>
+                    <td>{formatLastUpdated(entry.decided_at)}</td>
+                    <td>{Number(entry.sync_percentage).toFixed(2)}%</td>
+                    <td>{entry.missing_player_count}</td>
+                    <td style={entry.snapshot_saved ? { color: '#4ade80' } : entry.save_error ? { color: '#f87171' } : undefined}>
+                      {entry.snapshot_saved
+                        ? `Saved ${entry.snapshot_date ?? ''}`
+                        : entry.save_blocked ? 'Blocked'
+                        : entry.save_error ? 'Save failed'
+                        : entry.is_pending_sync ? `Pending (attempt ${entry.pending_attempt_count})` : 'Not saved'}
+                    </td>
+                    <td style={{ fontSize: '0.85rem' }}>
+                      {entry.reason}
+                      {entry.save_error && <div style={{ color: '#f87171' }}>{entry.save_error}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Manual Update */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Run Player Data Update</h2>
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        <p style={{ marginBottom: '1rem' }}>
+          Fetches the bot API and saves a snapshot for today, bypassing the cron job's decision logic.
+        </p>
+        <div style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+            <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+            Dry run (don&apos;t save)
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+            <input type="checkbox" checked={forceUpdate} onChange={(e) => setForceUpdate(e.target.checked)} />
+            Force update (save even if data quality checks fail)
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+            <input type="checkbox" checked={sendEmail} onChange={(e) => setSendEmail(e.target.checked)} />
+            Send notification email
+          </label>
+        </div>
+        <button
+          onClick={() => triggerUpdate.mutate({ dryRun, forceUpdate, sendEmail })}
+          disabled={triggerUpdate.isPending}
+          className={`button ${dryRun ? 'button-secondary' : 'button-primary'}`}
+        >
+          {triggerUpdate.isPending ? 'Running...' : dryRun ? 'Run dry run' : 'Save snapshot now'}
+        </button>
+
+        {triggerUpdate.error && (
+          <div className="warning-message" style={{ marginTop: '1rem' }}>
+            {triggerUpdate.error instanceof Error ? triggerUpdate.error.message : 'Update failed'}
+          </div>
+        )}
+        {triggerUpdate.data && (
+          <div className="info-message" style={{ marginTop: '1rem' }}>
+            {triggerUpdate.data.dryRun
+              ? `Dry run: received ${triggerUpdate.data.playerCount} players for ${triggerUpdate.data.snapshotDate}. Nothing was saved.`
+              : `Saved ${triggerUpdate.data.snapshots.inserted} player snapshots for ${triggerUpdate.data.snapshotDate}.`}
+            {!!triggerUpdate.data.quarantinedRows && (
+              <div>{triggerUpdate.data.quarantinedRows} invalid bot API rows were quarantined.</div>
+            )}
+            {triggerUpdate.data.qualityCheck && triggerUpdate.data.qualityCheck.anomalousPlayers > 0 && (
+              <div>
+                {triggerUpdate.data.qualityCheck.anomalousPlayers} of {triggerUpdate.data.qualityCheck.playersCompared} players
+                changed implausibly since {triggerUpdate.data.qualityCheck.previousSnapshotDate}:
+                <ul style={{ marginTop: '0.5rem', paddingLeft: '1.5rem' }}>
+                  {triggerUpdate.data.qualityCheck.anomalies.slice(0, 10).map(anomaly => (
+                    <li key={`${anomaly.discord_id}-${anomaly.metric}`}>
+                      {anomaly.ign}: {anomaly.metric.toUpperCase()} {anomaly.kind} {(anomaly.changeFraction * 100).toFixed(1)}%
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Saved Snapshots */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Saved Snapshots ({snapshots.length})</h2>
+
+      {deleteTarget && (
+        <div className="warning-message" style={{ marginBottom: '1rem' }}>
+          <p style={{ marginBottom: '0.5rem' }}>
+            This removes every player snapshot saved on <strong>{deleteTarget}</strong> from the dashboard.
+            It is moved to the archive below and can be restored until it is purged. Type the date to confirm.
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <input
+              type="text"
+              value={deleteConfirmation}
+              onChange={(e) => setDeleteConfirmation(e.target.value)}
+              placeholder={deleteTarget}
+              className="input"
+              style={{ maxWidth: '200px' }}
+            />
+            <button
+              onClick={handleDelete}
+              disabled={deleteConfirmation !== deleteTarget || deleteSnapshot.isPending}
+              className="button button-primary"
+            >
+              {deleteSnapshot.isPending ? 'Deleting...' : 'Delete snapshot'}
+            </button>
+            <button
+              onClick={() => { setDeleteTarget(null); setDeleteConfirmation(''); }}
+              className="button button-secondary"
+            >
+              Cancel
+            </button>
+          </div>
+          {deleteSnapshot.error && (
+            <p style={{ marginTop: '0.5rem' }}>
+              {deleteSnapshot.error instanceof Error ? deleteSnapshot.error.message : 'Delete failed'}
+            </p>
+          )}
+        </div>
+      )}
+      {deleteSnapshot.data && !deleteTarget && (
+        <div className="info-message" style={{ marginBottom: '1rem' }}>{deleteSnapshot.data.message}</div>
+      )}
+
+      <div className="card" style={{ overflowX: 'auto', marginBottom: '2rem' }}>
+        <table>
+          <thead>
+            <tr>
+              <th>Snapshot Date</th>
+              <th>Records</th>
+              <th>Imported At</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {snapshots.map(snapshot => (
+              <tr
+                key={snapshot.snapshot_date}
+                style={snapshot.snapshot_date === previewDate ? { background: 'var(--color-bg-tertiary)' } : undefined}
+              >
+                <td>{snapshot.snapshot_date}</td>
+                <td>{formatInteger(snapshot.record_count)}</td>
+                <td>{snapshot.imported_at ? formatLastUpdated(snapshot.imported_at) : 'Unknown'}</td>
+                <td style={{ display: 'flex', gap: '0.5rem' }}>
+                  <button
+                    onClick={() => setPreviewDate(previewDate === snapshot.snapshot_date ? null : snapshot.snapshot_date)}
+                    className="button button-secondary"
+                  >
+                    {previewDate === snapshot.snapshot_date ? 'Hide' : 'Preview'}
+                  </button>
+                  <button
+                    onClick={() => { setDeleteTarget(snapshot.snapshot_date); setDeleteConfirmation(''); }}
+                    className="button button-secondary"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Snapshot Preview */}
+      {previewDate && (
+        <div className="card" style={{ overflowX: 'auto' }}>
+          <h3 style={{ marginBottom: '1rem' }}>Preview: {previewDate}</h3>
+          {isLoadingPreview ? (
+            <LoadingSpinner text="Loading snapshot..." />
+          ) : !previewData || previewData.players.length === 0 ? (
+            <div className="info-message">This snapshot has no player rows.</div>
+          ) : (
+            <>
+              <p style={{ marginBottom: '1rem' }}>
+                {previewData.totalCount} players. Top {previewData.players.length} by EB:
+              </p>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Rank</th>
+                    <th>IGN</th>
+                    <th>Discord Display Name</th>
+                    <th>EB</th>
+                    <th>SE</th>
+                    <th>Grade</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewData.players.map(player => (
+                    <tr key={player.discord_id}>
+                      <td>{player.rank}</td>
+                      <td>{player.ign}</td>
+                      <td>{player.display_name}</td>
+                      <td>{bigNumberToString(player.eb)}%</td>
+                      <td>{bigNumberToString(player.se)}</td>
+                      <td>{player.grade}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Archived Snapshots */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Archived Snapshots</h2>
+
+      {restoreSnapshot.error && (
+        <div className="warning-message" style={{ marginBottom: '1rem' }}>
+          {restoreSnapshot.error instanceof Error ? restoreSnapshot.error.message : 'Restore failed'}
+        </div>
+      )}
+      {restoreSnapshot.data && (
+        <div className="info-message" style={{ marginBottom: '1rem' }}>{restoreSnapshot.data.message}</div>
+      )}
+
+      {isLoadingArchive ? (
+        <LoadingSpinner text="Loading archive..." />
+      ) : archiveError ? (
+        <div className="warning-message">Could not load archived snapshots.</div>
+      ) : !archivedSnapshots || archivedSnapshots.length === 0 ? (
+        <div className="info-message">No deleted snapshots in the archive.</div>
+      ) : (
+        <div className="card" style={{ overflowX: 'auto' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>Snapshot Date</th>
+                <th>Records</th>
+                <th>Deleted</th>
+                <th>Deleted By</th>
+                <th>Purged On</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {archivedSnapshots.map(snapshot => (
+                <tr key={snapshot.snapshot_date}>
+                  <td>{snapshot.snapshot_date}</td>
+                  <td>{formatInteger(snapshot.record_count)}</td>
+                  <td>{formatLastUpdated(snapshot.archived_at)}</td>
+                  <td>{snapshot.archived_by}</td>
+                  <td>{formatDate(snapshot.purge_after)}</td>
+                  <td>
+                    <button
+                      onClick={() => restoreSnapshot.mutate(snapshot.snapshot_date)}
+                      disabled={restoreSnapshot.isPending}
+                      className="button button-secondary"
+                    >
+                      {restoreSnapshot.isPending && restoreSnapshot.variables === snapshot.snapshot_date ? 'Restoring...' : 'Restore'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useEggdayLeaderboard } from '@/hooks/usePlayerData';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import ErrorMessage from '@/components/ErrorMessage';
+import { calculateEggdayGain, computeRanks, type EggdayMetric } from '@/utils/dataProcessing';
+import { bigNumberToString, formatInteger } from '@/utils/formatters';
+
+type GainMode = 'absolute' | 'percentage';
+
+const METRIC_OPTIONS: Record<EggdayMetric, string> = {
+  se: 'Soul Eggs',
+  pe: 'Prophecy Eggs',
+  eb: 'Earnings Bonus',
+};
+
+const MODE_OPTIONS: Record<GainMode, string> = {
+  absolute: 'Absolute gain',
+  percentage: 'Percentage gain',
+};
+
+function formatMetricValue(value: number | null | undefined, metric: EggdayMetric): string {
+  if (value === null || value === undefined || isNaN(value)) return 'N/A';
+
+  switch (metric) {
+    case 'eb':
+      return bigNumberToString(value) + '%';
+    case 'se':
+      return bigNumberToString(value);
+    case 'pe':
+      return formatInteger(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Egg Day Page
+ *
+ * Community recap of the yearly Egg Day event, built from the eggday_gains
+ * table that update-player-data fills in from Wonky's start/end values.
+ */
+export default function EggDay() {
+  const { discordId } = useAuth();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [selectedMetric, setSelectedMetric] = useState<EggdayMetric>('se');
+  const [gainMode, setGainMode] = useState<GainMode>('absolute');
+
+  const { data: leaderboardData, isLoading, error, refetch } = useEggdayLeaderboard(selectedYear);
+
+  if (isLoading) {
+    return <LoadingSpinner text="Loading Egg Day leaderboard..." />;
+  }
+
+  if (error) {
+    return (
+      <ErrorMessage
+        title="Failed to Load Egg Day Leaderboard"
+        message={error instanceof Error ? error.message : 'An unknown error occurred'}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  if (!leaderboardData || leaderboardData.year === null || leaderboardData.entries.length === 0) {
+    return (
+      <ErrorMessage
+        title="No Data Available"
+        message="No Egg Day gains have been recorded yet."
+      />
+    );
+  }
+
+  const year = leaderboardData.year;
+
+  // Compute gains for the selected metric, skipping players without start/end values
+  const rows = leaderboardData.entries
+    .map(entry => ({ entry, gain: calculateEggdayGain(entry, selectedMetric) }))
+    .filter((row): row is { entry: typeof row.entry; gain: NonNullable<typeof row.gain> } => row.gain !== null);
+
+  const getSortValue = (row: typeof rows[number]) =>
+    gainMode === 'absolute' ? row.gain.gain : row.gain.gainPct;
+
+  const rankedRows = rows
+    .filter(row => getSortValue(row) != null)
+    .sort((a, b) => (getSortValue(b) as number) - (getSortValue(a) as number));
+
+  const ranks = computeRanks(rankedRows, getSortValue, row => row.entry.discord_id);
+  const currentUserRow = rankedRows.find(row => row.entry.discord_id === discordId);
+
+  // Summary statistics
+  const totalGain = rows.reduce((sum, row) => sum + row.gain.gain, 0);
+  const pctValues = rows
+    .map(row => row.gain.gainPct)
+    .filter((v): v is number => v != null)
+    .sort((a, b) => a - b);
+  const medianPct = pctValues.length > 0 ? pctValues[Math.floor(pctValues.length / 2)] : null;
+
+  return (
+    <div className="container">
+      <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Egg Day {year}</h1>
+
+      {/* Options */}
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Year:</label>
+            <select
+              value={year}
+              onChange={(e) => setSelectedYear(Number(e.target.value))}
+              className="select"
+            >
+              {leaderboardData.availableYears.map(y => (
+                <option key={y} value={y}>{y}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Metric:</label>
+            <select
+              value={selectedMetric}
+              onChange={(e) => setSelectedMetric(e.target.value as EggdayMetric)}
+              className="select"
+            >
+              {Object.entries(METRIC_OPTIONS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Rank by:</label>
+            <select
+              value={gainMode}
+              onChange={(e) => setGainMode(e.target.value as GainMode)}
+              className="select"
+            >
+              {Object.entries(MODE_OPTIONS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem', marginBottom: '2rem' }}>
+        <div className="metric-card">
+          <div className="metric-label">Participants</div>
+          <div className="metric-value">{formatInteger(rows.length)}</div>
+        </div>
+        {currentUserRow ? (
+          <div className="metric-card" style={{ borderColor: 'var(--color-primary)', borderWidth: '2px' }}>
+            <div className="metric-label">Your Rank ({METRIC_OPTIONS[selectedMetric]})</div>
+            <div className="metric-value">#{ranks[currentUserRow.entry.discord_id]}</div>
+          </div>
+        ) : discordId ? (
+          <div className="metric-card">
+            <div className="metric-label">Your Rank</div>
+            <div className="metric-value" style={{ fontSize: '1rem' }}>Not ranked</div>
+          </div>
+        ) : null}
+        {selectedMetric !== 'eb' && (
+          <div className="metric-card">
+            <div className="metric-label">Total {selectedMetric.toUpperCase()} Gained</div>
+            <div className="metric-value" style={{ fontSize: '1.25rem' }}>{formatMetricValue(totalGain, selectedMetric)}</div>
+          </div>
+        )}
+        <div className="metric-card">
+          <div className="metric-label">Median Gain %</div>
+          <div className="metric-value" style={{ fontSize: '1.25rem' }}>
+            {medianPct != null ? `${medianPct.toFixed(2)}%` : 'N/A'}
+          </div>
+        </div>
+      </div>
+
+      {/* Leaderboard */}
+      <div className="card" style={{ overflowX: 'auto' }}>
+        <h2 style={{ marginBottom: '1rem' }}>
+          Players by {METRIC_OPTIONS[selectedMetric]} {gainMode === 'absolute' ? 'Gain' : 'Gain %'}
+        </h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Rank</th>
+              <th>IGN</th>
+              <th>Discord Name</th>
+              <th>Start</th>
+              <th>End</th>
+              <th>Gain</th>
+              <th>Gain %</th>
+              <th>Role</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rankedRows.map(({ entry, gain }) => (
+              <tr
+                key={entry.discord_id}
+                style={entry.discord_id === discordId ? { background: 'var(--color-bg-tertiary)' } : undefined}
+              >
+                <td><strong>{ranks[entry.discord_id]}</strong></td>
+                <td>{entry.ign || 'Unknown'}</td>
+                <td>{entry.discord_name || 'N/A'}</td>
+                <td>{formatMetricValue(gain.start, selectedMetric)}</td>
+                <td>{formatMetricValue(gain.end, selectedMetric)}</td>
+                <td style={{ color: gain.gain > 0 ? '#4ade80' : gain.gain < 0 ? '#f87171' : 'inherit' }}>
+                  {gain.gain > 0 ? '+' : ''}{formatMetricValue(gain.gain, selectedMetric)}
+                </td>
+                <td>{gain.gainPct != null ? `${gain.gainPct.toFixed(2)}%` : 'N/A'}</td>
+                <td>
+                  {entry.start_role || 'N/A'}
+                  {entry.end_role && entry.end_role !== entry.start_role ? ` → ${entry.end_role}` : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+    </div>
+  );
+}
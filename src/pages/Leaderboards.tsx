@@ -1,23 +1,212 @@
-import { useState } from 'react';
-import { useCachedLeaderboard } from '@/hooks/usePlayerData';
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useCachedLeaderboard, useLeaderboardPage, useSnapshotMetadata } from '@/hooks/usePlayerData';
+import type { CachedLeaderboardResponse } from '@/hooks/usePlayerData';
 import { useAuth } from '@/hooks/useAuth';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import ErrorMessage from '@/components/ErrorMessage';
 import { formatInteger, bigNumberToString, formatLastUpdated } from '@/utils/formatters';
+import TopGainers from '@/components/TopGainers';
 import { RoleDistributionChart } from '@/components/charts';
+import { computeRanks } from '@/utils/dataProcessing';
+import { FARMER_ROLES } from '@/utils/eb';
+import { GRADES } from '@/config/constants';
+
+const PAGE_SIZE = 100;
+
+type GuestFilter = 'all' | 'guests' | 'members';
+
+/**
+ * Read a comma-separated list from a query string param
+ */
+function parseListParam(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+/**
+ * Render movement between a past rank and the current rank.
+ * Lower rank numbers are better, so a drop in number is shown as a rise.
+ */
+function renderRankChange(currentRank: number | undefined, previousRank: number | undefined) {
+  if (currentRank === undefined) return null;
+  if (previousRank === undefined) {
+    return <span className="tag">New</span>;
+  }
+
+  const change = previousRank - currentRank;
+  if (change === 0) {
+    return <span style={{ color: 'var(--color-text-muted)' }}>—</span>;
+  }
+
+  return (
+    <span style={{ color: change > 0 ? '#4ade80' : '#f87171' }}>
+      {change > 0 ? '▲' : '▼'} {Math.abs(change)}
+    </span>
+  );
+}
 
 export default function Leaderboards() {
-  const { discordId, accessLevel } = useAuth();
+  const { discordId, accessLevel, jwt } = useAuth();
+  const queryClient = useQueryClient();
   const isAdmin = accessLevel === 'admin';
-  const [sortBy, setSortBy] = useState('eb');
-  const [showInactive, setShowInactive] = useState(true);
 
-  // Fetch cached leaderboard data from edge function
+  // All view state lives in the query string so filtered views can be shared as links
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sortBy = searchParams.get('sort') || 'eb';
+  const showInactive = searchParams.get('inactive') !== '0';
+  // null = live leaderboard, otherwise a saved snapshot_date
+  const snapshotDate = searchParams.get('snapshot');
+  const compareDate = searchParams.get('compare');
+  const activeTab = searchParams.get('tab') === 'gainers' ? 'gainers' : 'current';
+  const selectedGrades = parseListParam(searchParams.get('grade'));
+  // Grade tab: rank within a single grade instead of the whole guild
+  const gradeTab = GRADES.find(g => g === searchParams.get('grade_tab')) ?? null;
+  const selectedRoles = parseListParam(searchParams.get('role'));
+  const guestFilter = (searchParams.get('guest') || 'all') as GuestFilter;
+  const searchQuery = searchParams.get('q') || '';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  // Set or clear query params; changing anything other than the page goes back to page 1
+  const updateParams = (updates: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value === null || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, value);
+        }
+      });
+      if (!('page' in updates)) {
+        next.delete('page');
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  // Row to scroll to once the page containing it has rendered ("Jump to me")
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(`leaderboard-row-${scrollTarget}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setScrollTarget(null);
+  }, [scrollTarget, page]);
+
+  // The full leaderboard is already cached for this date (e.g. after a sort change),
+  // so there is no need to fetch a first page again
+  const hasFullLeaderboard = queryClient.getQueryData(['cachedLeaderboard', snapshotDate, jwt]) !== undefined;
+
+  // First page ranked server-side, fetched before anything else so it can be shown on its own
+  const { data: firstPageData, isPending: isFirstPagePending } = useLeaderboardPage(
+    {
+      snapshotDate,
+      sort: sortBy,
+      activeOnly: !showInactive,
+      grades: gradeTab ? [gradeTab] : undefined,
+      limit: PAGE_SIZE,
+      fields: ['ign', 'display_name', 'grade', sortBy as keyof CachedLeaderboardResponse['players'][number]],
+    },
+    { enabled: activeTab === 'current' && !hasFullLeaderboard }
+  );
+
+  // Fetch cached leaderboard data from edge function once the first page has settled
   // Data is automatically refreshed if older than 15 minutes
-  const { data: leaderboardData, isLoading, error, refetch } = useCachedLeaderboard();
+  const { data: leaderboardData, isPending: isLoading, error, refetch } = useCachedLeaderboard(snapshotDate, {
+    enabled: activeTab === 'current' && (hasFullLeaderboard || !isFirstPagePending),
+  });
+  const { data: compareData, isLoading: isLoadingCompare } = useCachedLeaderboard(compareDate, { enabled: !!compareDate });
+  const { data: snapshotMetadata } = useSnapshotMetadata();
+
+  const tabs = (
+    <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1.5rem' }}>
+      <button
+        onClick={() => updateParams({ tab: null })}
+        className={`button ${activeTab === 'current' ? 'button-primary' : 'button-secondary'}`}
+      >
+        Rankings
+      </button>
+      <button
+        onClick={() => updateParams({ tab: 'gainers' })}
+        className={`button ${activeTab === 'gainers' ? 'button-primary' : 'button-secondary'}`}
+      >
+        Top Gainers
+      </button>
+    </div>
+  );
+
+  if (activeTab === 'gainers') {
+    return (
+      <div className="container">
+        <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Top Gainers</h1>
+        {tabs}
+        <TopGainers />
+      </div>
+    );
+  }
+
+  const sortOptions: Record<string, string> = {
+    eb: 'Earnings Bonus',
+    se: 'Soul Eggs',
+    pe: 'Prophecy Eggs',
+    te: 'Truth Eggs',
+    gains_saturday: 'Saturday Gains',
+    max_mystical_eggs: 'Max Mystical Eggs',
+    // Only show prestige sorting option for admins (data is not fetched for non-admins)
+    ...(isAdmin ? { num_prestiges: 'Number of Prestiges' } : {}),
+  };
 
   if (isLoading) {
-    return <LoadingSpinner text="Loading leaderboard..." />;
+    if (!firstPageData || firstPageData.players.length === 0) {
+      return <LoadingSpinner text="Loading leaderboard..." />;
+    }
+
+    // Lightweight preview until the full leaderboard (filters, stats, paging) is available
+    const previewValue = (player: typeof firstPageData.players[number]) =>
+      (player as unknown as Record<string, number | null | undefined>)[sortBy];
+
+    return (
+      <div className="container">
+        <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Current Leaderboards</h1>
+        {tabs}
+        <div className="info-message" style={{ marginBottom: '1.5rem' }}>
+          Showing the top {firstPageData.players.length} of {firstPageData.totalCount} players while the full leaderboard loads...
+        </div>
+        <div className="card" style={{ overflowX: 'auto' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>{gradeTab ? 'Grade Rank' : 'Rank'}</th>
+                <th>IGN</th>
+                <th>Discord Display Name</th>
+                <th>{sortOptions[sortBy]}</th>
+                <th>Grade</th>
+              </tr>
+            </thead>
+            <tbody>
+              {firstPageData.players.map(player => (
+                <tr
+                  key={player.discord_id}
+                  style={player.discord_id === discordId ? { background: 'var(--color-bg-tertiary)' } : undefined}
+                >
+                  <td><strong>{player.rank}</strong></td>
+                  <td>{player.ign}</td>
+                  <td>{player.display_name}</td>
+                  <td>
+                    {sortBy === 'eb'
+                      ? `${bigNumberToString(previewValue(player))}%`
+                      : ['pe', 'te', 'num_prestiges'].includes(sortBy)
+                        ? formatInteger(previewValue(player))
+                        : bigNumberToString(previewValue(player))}
+                  </td>
+                  <td>{player.grade}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
   }
 
   if (error) {
@@ -46,11 +235,22 @@ export default function Leaderboards() {
   const lastUpdated = leaderboardData?.lastUpdated 
     ? formatLastUpdated(leaderboardData.lastUpdated)
     : 'Unknown';
+  const cacheAgeMinutes = leaderboardData?.cacheAgeSeconds != null
+    ? Math.floor(leaderboardData.cacheAgeSeconds / 60)
+    : null;
+  const cacheAge = cacheAgeMinutes === null
+    ? null
+    : cacheAgeMinutes < 60 ? `${cacheAgeMinutes} min` : `${Math.floor(cacheAgeMinutes / 60)} h ${cacheAgeMinutes % 60} min`;
+
+  // Newest snapshot first for the date pickers
+  const snapshotDates = [...(snapshotMetadata || [])]
+    .map(m => m.snapshot_date)
+    .reverse();
 
   // Store total player count before filtering
   const totalPlayerCount = players.length;
 
-  // Apply filters (guests are always included)
+  // Apply filters that affect ranking
   let filteredPlayers = [...players];
   if (!showInactive) {
     filteredPlayers = filteredPlayers.filter(p => p.active);
@@ -69,38 +269,67 @@ export default function Leaderboards() {
       return bVal - aVal; // Descending order
     });
   
-  // Calculate proper ranking with ties (dense ranking)
-  const playerRanks: Record<string, number> = {};
-  let currentRank = 1;
-  let previousValue: number | null = null;
+  // Calculate proper ranking with ties
+  const getSortValue = (p: typeof players[number]) =>
+    (p as unknown as Record<string, number | null | undefined>)[sortBy];
+  const globalRanks = computeRanks(filteredPlayers, getSortValue, p => p.discord_id);
+
+  // With a grade tab selected, only that grade is ranked and shown
+  const rankedPlayers = gradeTab ? filteredPlayers.filter(p => p.grade === gradeTab) : filteredPlayers;
+  const playerRanks = gradeTab ? computeRanks(rankedPlayers, getSortValue, p => p.discord_id) : globalRanks;
+
+  // Ranks at the comparison snapshot, using the same filters
+  const compareRanks = compareDate && compareData
+    ? computeRanks(
+        compareData.players.filter(p => (showInactive || p.active) && (!gradeTab || p.grade === gradeTab)),
+        getSortValue,
+        p => p.discord_id
+      )
+    : null;
   
-  filteredPlayers.forEach((player, idx) => {
-    const currentValue = (player as unknown as Record<string, number>)[sortBy] || 0;
-    
-    if (previousValue !== null && currentValue !== previousValue) {
-      currentRank = idx + 1;
+  // Find current user's rank, globally and within their own grade
+  const currentUserRank = discordId && globalRanks[discordId] ? globalRanks[discordId] : null;
+  const currentUserGrade = discordId ? filteredPlayers.find(p => p.discord_id === discordId)?.grade : undefined;
+  const currentUserGradeRank = discordId && currentUserGrade
+    ? computeRanks(filteredPlayers.filter(p => p.grade === currentUserGrade), getSortValue, p => p.discord_id)[discordId]
+    : undefined;
+
+  // View filters only narrow what is shown - they don't change ranks
+  const normalizedQuery = searchQuery.trim().toLowerCase();
+  const visiblePlayers = rankedPlayers.filter(p => {
+    if (!gradeTab && selectedGrades.length > 0 && !selectedGrades.includes(p.grade)) return false;
+    if (selectedRoles.length > 0 && !selectedRoles.includes(p.farmer_role || '')) return false;
+    if (guestFilter === 'guests' && !p.is_guest) return false;
+    if (guestFilter === 'members' && p.is_guest) return false;
+    if (normalizedQuery) {
+      const names = [p.ign, p.display_name, p.discord_name].filter(Boolean).join(' ').toLowerCase();
+      if (!names.includes(normalizedQuery)) return false;
     }
-    
-    playerRanks[player.discord_id] = currentRank;
-    previousValue = currentValue;
+    return true;
   });
-  
-  // Find current user's rank
-  const currentUserRank = discordId && playerRanks[discordId] ? playerRanks[discordId] : null;
 
-  const sortOptions: Record<string, string> = {
-    eb: 'Earnings Bonus',
-    se: 'Soul Eggs',
-    pe: 'Prophecy Eggs',
-    te: 'Truth Eggs',
-    // Only show prestige sorting option for admins (data is not fetched for non-admins)
-    ...(isAdmin ? { num_prestiges: 'Number of Prestiges' } : {}),
+  const totalPages = Math.max(1, Math.ceil(visiblePlayers.length / PAGE_SIZE));
+  const currentPage = Math.min(page, totalPages);
+  const pagedPlayers = visiblePlayers.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  const currentUserIndex = discordId ? visiblePlayers.findIndex(p => p.discord_id === discordId) : -1;
+  const jumpToMe = () => {
+    if (currentUserIndex < 0 || !discordId) return;
+    updateParams({ page: String(Math.floor(currentUserIndex / PAGE_SIZE) + 1) });
+    setScrollTarget(discordId);
+  };
+
+  const toggleGrade = (grade: string) => {
+    const next = selectedGrades.includes(grade)
+      ? selectedGrades.filter(g => g !== grade)
+      : [...selectedGrades, grade];
+    updateParams({ grade: next.join(',') || null });
   };
 
   // Calculate statistics
-  const ebValues = filteredPlayers.map(p => p.eb).filter(v => v != null);
-  const peValues = filteredPlayers.map(p => p.pe).filter(v => v != null);
-  const seValues = filteredPlayers.map(p => p.se).filter(v => v != null);
+  const ebValues = visiblePlayers.map(p => p.eb).filter(v => v != null);
+  const peValues = visiblePlayers.map(p => p.pe).filter(v => v != null);
+  const seValues = visiblePlayers.map(p => p.se).filter(v => v != null);
   
   const totalSe = seValues.reduce((sum, v) => sum + v, 0);
   const totalEb = ebValues.reduce((sum, v) => sum + v, 0);
@@ -108,7 +337,7 @@ export default function Leaderboards() {
 
   // Role distribution
   const roleDistribution: Record<string, number> = {};
-  filteredPlayers.forEach(p => {
+  visiblePlayers.forEach(p => {
     const role = p.farmer_role || 'Unknown';
     roleDistribution[role] = (roleDistribution[role] || 0) + 1;
   });
@@ -116,19 +345,34 @@ export default function Leaderboards() {
   return (
     <div className="container">
       <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Current Leaderboards</h1>
+      {tabs}
 
-      <div className="info-message" style={{ marginBottom: '1.5rem' }}>
-        Last updated: <strong>{lastUpdated}</strong>
-        {' '}(updates every 15 minutes from Wonky)
+      <div
+        className={!snapshotDate && leaderboardData?.refreshStatus === 'refresh_failed' ? 'warning-message' : 'info-message'}
+        style={{ marginBottom: '1.5rem' }}
+      >
+        {snapshotDate ? (
+          <>Showing saved snapshot from <strong>{snapshotDate}</strong></>
+        ) : (
+          <>
+            Last updated: <strong>{lastUpdated}</strong>
+            {cacheAge && <> ({cacheAge} ago)</>}
+            {leaderboardData?.refreshStatus === 'refreshing'
+              ? ' - refreshing from Wonky, newer data will appear shortly'
+              : leaderboardData?.refreshStatus === 'refresh_failed'
+                ? ' - Wonky could not be reached, showing the last saved data'
+                : ' (updates every 15 minutes from Wonky)'}
+          </>
+        )}
       </div>
 
       <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem', marginBottom: '2rem' }}>
         <div className="metric-card">
           <div className="metric-label">Total Players</div>
           <div className="metric-value">{totalPlayerCount}</div>
-          {filteredPlayers.length !== totalPlayerCount && (
+          {visiblePlayers.length !== totalPlayerCount && (
             <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
-              ({filteredPlayers.length} shown)
+              ({visiblePlayers.length} shown)
             </div>
           )}
         </div>
@@ -143,6 +387,12 @@ export default function Leaderboards() {
             <div className="metric-value" style={{ fontSize: '1rem' }}>Not ranked</div>
           </div>
         ) : null}
+        {currentUserGrade && currentUserGradeRank && (
+          <div className="metric-card" style={{ borderColor: 'var(--color-primary)', borderWidth: '2px' }}>
+            <div className="metric-label">Your Rank in Grade {currentUserGrade}</div>
+            <div className="metric-value">#{currentUserGradeRank}</div>
+          </div>
+        )}
         <div className="metric-card">
           <div className="metric-label">Total SE</div>
           <div className="metric-value" style={{ fontSize: '1.25rem' }}>{bigNumberToString(totalSe)}</div>
@@ -162,7 +412,7 @@ export default function Leaderboards() {
         <h2 style={{ marginBottom: '1rem' }}>Role Distribution</h2>
         <RoleDistributionChart 
           data={roleDistribution} 
-          title="Current Role Distribution"
+          title={snapshotDate ? `Role Distribution on ${snapshotDate}` : 'Current Role Distribution'}
         />
       </div>
 
@@ -170,9 +420,41 @@ export default function Leaderboards() {
       <div className="card" style={{ marginBottom: '2rem' }}>
         <h3 style={{ marginBottom: '1rem' }}>Options</h3>
         <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Leaderboard as of:</label>
+            <select
+              value={snapshotDate ?? ''}
+              onChange={(e) => updateParams({ snapshot: e.target.value || null })}
+              className="select"
+              style={{ maxWidth: '300px' }}
+            >
+              <option value="">Live (current)</option>
+              {snapshotDates.map(date => (
+                <option key={date} value={date}>{date}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Show rank change since:</label>
+            <select
+              value={compareDate ?? ''}
+              onChange={(e) => updateParams({ compare: e.target.value || null })}
+              className="select"
+              style={{ maxWidth: '300px' }}
+            >
+              <option value="">None</option>
+              {snapshotDates
+                .filter(date => date !== snapshotDate)
+                .map(date => (
+                  <option key={date} value={date}>{date}</option>
+                ))}
+            </select>
+          </div>
+
           <div>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Sort by:</label>
-            <select value={sortBy} onChange={(e) => setSortBy(e.target.value)} className="select" style={{ maxWidth: '300px' }}>
+            <select value={sortBy} onChange={(e) => updateParams({ sort: e.target.value === 'eb' ? null : e.target.value })} className="select" style={{ maxWidth: '300px' }}>
               {Object.entries(sortOptions).map(([key, label]) => (
                 <option key={key} value={key}>{label}</option>
               ))}
@@ -184,7 +466,7 @@ export default function Leaderboards() {
               <input
                 type="checkbox"
                 checked={showInactive}
-                onChange={(e) => setShowInactive(e.target.checked)}
+                onChange={(e) => updateParams({ inactive: e.target.checked ? null : '0' })}
               />
               Include inactive players
             </label>
@@ -192,34 +474,140 @@ export default function Leaderboards() {
         </div>
       </div>
 
+      {/* Filters */}
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        <h3 style={{ marginBottom: '1rem' }}>Filters</h3>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Search:</label>
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => updateParams({ q: e.target.value })}
+              placeholder="IGN or display name"
+              className="input"
+            />
+          </div>
+
+          {/* Redundant while a grade tab is selected */}
+          {!gradeTab && (
+            <div>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Grade:</label>
+              <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+                {GRADES.map(grade => (
+                  <label key={grade} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={selectedGrades.includes(grade)}
+                      onChange={() => toggleGrade(grade)}
+                    />
+                    {grade}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>Guests:</label>
+            <select
+              value={guestFilter}
+              onChange={(e) => updateParams({ guest: e.target.value === 'all' ? null : e.target.value })}
+              className="select"
+            >
+              <option value="all">Members and guests</option>
+              <option value="members">Members only</option>
+              <option value="guests">Guests only</option>
+            </select>
+          </div>
+
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+              Role: {selectedRoles.length > 0 && (
+                <button
+                  onClick={() => updateParams({ role: null })}
+                  style={{ background: 'none', border: 'none', color: 'var(--color-primary)', cursor: 'pointer', padding: 0 }}
+                >
+                  (clear)
+                </button>
+              )}
+            </label>
+            <select
+              multiple
+              value={selectedRoles}
+              onChange={(e) => updateParams({ role: Array.from(e.target.selectedOptions, o => o.value).join(',') || null })}
+              className="select"
+              size={6}
+            >
+              {FARMER_ROLES.map(role => (
+                <option key={role.name} value={role.name}>{role.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Grade Tabs */}
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        {[null, ...GRADES].map(grade => (
+          <button
+            key={grade ?? 'all'}
+            onClick={() => updateParams({ grade_tab: grade })}
+            className={`button ${gradeTab === grade ? 'button-primary' : 'button-secondary'}`}
+          >
+            {grade ?? 'All Grades'}
+          </button>
+        ))}
+      </div>
+
       {/* Leaderboard */}
       <div className="card" style={{ overflowX: 'auto' }}>
-        <h2 style={{ marginBottom: '1rem' }}>Players by {sortOptions[sortBy]}</h2>
+        <h2 style={{ marginBottom: '1rem' }}>
+          {gradeTab ? `Grade ${gradeTab} players` : 'Players'} by {sortOptions[sortBy]}
+        </h2>
         <table>
           <thead>
             <tr>
-              <th>Rank</th>
+              <th>{gradeTab ? 'Grade Rank' : 'Rank'}</th>
+              {gradeTab && <th>Global Rank</th>}
+              {compareDate && <th>Change since {compareDate}</th>}
               <th>IGN</th>
               <th>Discord Display Name</th>
               <th>EB</th>
               <th>SE</th>
               <th>PE</th>
               <th>TE</th>
+              <th>Sat. Gains</th>
+              <th>Max MEs</th>
               {isAdmin && <th>Prestiges</th>}
               <th>Role</th>
               <th>Grade</th>
             </tr>
           </thead>
           <tbody>
-            {filteredPlayers.map((player) => (
-              <tr key={player.discord_id}>
+            {pagedPlayers.map((player) => (
+              <tr
+                key={player.discord_id}
+                id={`leaderboard-row-${player.discord_id}`}
+                style={player.discord_id === discordId ? { background: 'var(--color-bg-tertiary)' } : undefined}
+              >
                 <td><strong>{playerRanks[player.discord_id]}</strong></td>
+                {gradeTab && <td>{globalRanks[player.discord_id]}</td>}
+                {compareDate && (
+                  <td>
+                    {isLoadingCompare || !compareRanks
+                      ? '…'
+                      : renderRankChange(playerRanks[player.discord_id], compareRanks[player.discord_id])}
+                  </td>
+                )}
                 <td>{player.ign}</td>
                 <td>{player.display_name}</td>
                 <td>{bigNumberToString(player.eb)}%</td>
                 <td>{bigNumberToString(player.se)}</td>
                 <td>{formatInteger(player.pe)}</td>
                 <td>{player.te != null ? formatInteger(player.te) : 'N/A'}</td>
+                <td>{bigNumberToString(player.gains_saturday)}</td>
+                <td>{bigNumberToString(player.max_mystical_eggs)}</td>
                 {isAdmin && <td>{formatInteger(player.num_prestiges)}</td>}
                 <td>{player.farmer_role}</td>
                 <td>{player.grade}</td>
@@ -227,6 +615,39 @@ export default function Leaderboards() {
             ))}
           </tbody>
         </table>
+
+        {/* Pagination */}
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', flexWrap: 'wrap', marginTop: '1rem' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            <button
+              onClick={() => updateParams({ page: String(currentPage - 1) })}
+              disabled={currentPage <= 1}
+              className="button button-secondary"
+            >
+              ← Previous
+            </button>
+            <span>
+              Page {currentPage} of {totalPages} ({visiblePlayers.length} players)
+            </span>
+            <button
+              onClick={() => updateParams({ page: String(currentPage + 1) })}
+              disabled={currentPage >= totalPages}
+              className="button button-secondary"
+            >
+              Next →
+            </button>
+          </div>
+          {discordId && (
+            <button
+              onClick={jumpToMe}
+              disabled={currentUserIndex < 0}
+              title={currentUserIndex < 0 ? 'You are not in the current filtered view' : undefined}
+              className="button button-primary"
+            >
+              Jump to me
+            </button>
+          )}
+        </div>
       </div>
 
       <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
@@ -1,12 +1,16 @@
 import { useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { usePlayerSnapshots, usePlayerCurrentStats } from '@/hooks/usePlayerData';
+import { usePlayerSnapshots, usePlayerCurrentStats, usePlayerEggdayGains, usePlayerRankHistory } from '@/hooks/usePlayerData';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import ErrorMessage from '@/components/ErrorMessage';
-import { ProgressionChart } from '@/components/charts';
-import { getLatestRecord } from '@/utils/dataProcessing';
+import EggdayGainsTable from '@/components/EggdayGainsTable';
+import WeeklyGains from '@/components/WeeklyGains';
+import GradeStandingCards from '@/components/GradeStandingCards';
+import { ProgressionChart, GainsChart, RankChart, DistributionChart } from '@/components/charts';
+import { getLatestRecord, getSaturdayGainsSeries } from '@/utils/dataProcessing';
 import { bigNumberToString, formatInteger, formatLastUpdated } from '@/utils/formatters';
-import { CSV_EXPORT_HEADERS } from '@/config/constants';
+import { buildSnapshotCsv, downloadCsv } from '@/utils/csv';
+import type { GuildStanding } from '@/types';
 
 /**
  * My Stats Page
@@ -27,7 +31,10 @@ export default function MyStats() {
   const { user, discordId } = useAuth();
   const { data: snapshots, isLoading, error, refetch } = usePlayerSnapshots(discordId);
   const { data: currentStatsData, isLoading: isLoadingCurrent, error: errorCurrent } = usePlayerCurrentStats();
+  const { data: eggdayGains, isLoading: isLoadingEggday } = usePlayerEggdayGains(discordId);
+  const { data: rankHistory, isLoading: isLoadingRanks } = usePlayerRankHistory(discordId);
   const [selectedMetric, setSelectedMetric] = useState('eb');
+  const [distributionMetric, setDistributionMetric] = useState<keyof GuildStanding['metrics']>('eb');
 
   if (isLoading) {
     return <LoadingSpinner text="Loading your statistics..." />;
@@ -75,6 +82,8 @@ export default function MyStats() {
     pe: 'Prophecy Eggs',
     te: 'Truth Eggs',
     num_prestiges: 'Number of Prestiges',
+    gains_saturday: 'Saturday Gains',
+    max_mystical_eggs: 'Max Mystical Eggs',
   };
 
   // Prepare chart data for selected metric
@@ -172,6 +181,14 @@ export default function MyStats() {
                 <td style={{ fontWeight: '500' }}>Prestiges</td>
                 <td>{currentPlayer.num_prestiges != null ? formatInteger(currentPlayer.num_prestiges) : 'N/A'}</td>
               </tr>
+              <tr>
+                <td style={{ fontWeight: '500' }}>Saturday Gains</td>
+                <td>{bigNumberToString(currentPlayer.gains_saturday)}</td>
+              </tr>
+              <tr>
+                <td style={{ fontWeight: '500' }}>Max Mystical Eggs</td>
+                <td>{bigNumberToString(currentPlayer.max_mystical_eggs)}</td>
+              </tr>
               <tr>
                 <td style={{ fontWeight: '500' }}>Role</td>
                 <td>{currentPlayer.farmer_role || 'N/A'}</td>
@@ -189,6 +206,65 @@ export default function MyStats() {
         </div>
       )}
 
+      {currentStatsData?.gradeStanding && (
+        <>
+          <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>
+            Standing in Grade {currentStatsData.gradeStanding.grade}
+          </h2>
+          <div style={{ marginBottom: '2rem' }}>
+            <GradeStandingCards standing={currentStatsData.gradeStanding} />
+          </div>
+        </>
+      )}
+
+      {/* Guild Distribution */}
+      {currentPlayer && currentStatsData?.guildStanding && (() => {
+        const guildStanding = currentStatsData.guildStanding;
+        const distributionOptions = (Object.keys(metricOptions) as Array<keyof GuildStanding['metrics']>)
+          .filter(key => key in guildStanding.metrics && guildStanding.metrics[key] !== null);
+        const standing = guildStanding.metrics[distributionMetric];
+        const playerValue = currentPlayer[distributionMetric];
+
+        return (
+          <>
+            <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Guild Distribution</h2>
+            <div className="card" style={{ marginBottom: '2rem' }}>
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                  Select a metric:
+                </label>
+                <select
+                  value={distributionMetric}
+                  onChange={(e) => setDistributionMetric(e.target.value as keyof GuildStanding['metrics'])}
+                  className="select"
+                  style={{ maxWidth: '300px' }}
+                >
+                  {distributionOptions.map(key => (
+                    <option key={key} value={key}>{metricOptions[key]}</option>
+                  ))}
+                </select>
+              </div>
+              {standing && playerValue != null ? (
+                <>
+                  <div className="info-message" style={{ marginBottom: '1rem' }}>
+                    You rank <strong>#{standing.rank}</strong> of {standing.rankedCount} players and are ahead of{' '}
+                    <strong>{standing.percentile.toFixed(1)}%</strong> of the guild in {metricOptions[distributionMetric]}.
+                  </div>
+                  <DistributionChart
+                    distribution={standing.distribution}
+                    playerValue={playerValue}
+                    title={`Guild ${metricOptions[distributionMetric]} Distribution`}
+                    isEb={distributionMetric === 'eb'}
+                  />
+                </>
+              ) : (
+                <div className="info-message">No distribution data available for this metric.</div>
+              )}
+            </div>
+          </>
+        );
+      })()}
+
       <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
 
       {/* Progression Chart with Metric Selector */}
@@ -220,6 +296,46 @@ export default function MyStats() {
 
       <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
 
+      {/* Weekly Gains */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Weekly Gains</h2>
+      <div style={{ marginBottom: '2rem' }}>
+        <WeeklyGains snapshots={snapshots} />
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Rank History */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Guild Rank History</h2>
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        {isLoadingRanks ? (
+          <LoadingSpinner text="Loading rank history..." />
+        ) : (
+          <RankChart data={rankHistory || []} />
+        )}
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Saturday Gains */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Saturday Gains</h2>
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        <GainsChart data={getSaturdayGainsSeries(snapshots)} title="Saturday Gains Over Time" />
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Egg Day Gains */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Egg Day Gains</h2>
+      <div style={{ marginBottom: '2rem' }}>
+        {isLoadingEggday ? (
+          <LoadingSpinner text="Loading Egg Day gains..." />
+        ) : (
+          <EggdayGainsTable gains={eggdayGains || []} />
+        )}
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
       {/* Historical Snapshots */}
       <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Historical Snapshots</h2>
         <div className="card" style={{ overflowX: 'auto' }}>
@@ -257,24 +373,7 @@ export default function MyStats() {
 
       <div style={{ marginTop: '2rem' }}>
         <button
-          onClick={() => {
-            const csv = [[...CSV_EXPORT_HEADERS].join(',')];
-            snapshots.forEach(snapshot => {
-              const row = CSV_EXPORT_HEADERS.map(header => {
-                const value = snapshot[header];
-                return value != null ? `"${value}"` : '""';
-              });
-              csv.push(row.join(','));
-            });
-            const csvString = csv.join('\n');
-            const blob = new Blob([csvString], { type: 'text/csv' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = 'my_stats_history.csv';
-            a.click();
-            URL.revokeObjectURL(url);
-          }}
+          onClick={() => downloadCsv(buildSnapshotCsv(snapshots), 'my_stats_history.csv')}
           className="button button-primary"
         >
           📥 Download Full History as CSV
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { usePlayerList, usePlayerComparison } from '@/hooks/usePlayerData';
+import { usePlayerComparison } from '@/hooks/usePlayerData';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import ErrorMessage from '@/components/ErrorMessage';
 import PlayerSearch from '@/components/PlayerSearch';
@@ -12,22 +12,8 @@ export default function PlayerComparison() {
   const [selectedPlayers, setSelectedPlayers] = useState<string[]>([]);
   const [selectedMetric, setSelectedMetric] = useState('eb');
   const [activePlayerTab, setActivePlayerTab] = useState<string | null>(null);
-  const { data: playerList, isLoading: listLoading } = usePlayerList();
   const { data: comparisonData, isLoading: dataLoading, error, refetch } = usePlayerComparison(selectedPlayers);
 
-  if (listLoading) {
-    return <LoadingSpinner text="Loading player list..." />;
-  }
-
-  if (!playerList || playerList.length === 0) {
-    return (
-      <ErrorMessage
-        title="No Players Found"
-        message="No player data available in the database."
-      />
-    );
-  }
-
   const handleAddPlayer = (discordId: string) => {
     if (!selectedPlayers.includes(discordId)) {
       setSelectedPlayers([...selectedPlayers, discordId]);
@@ -52,7 +38,7 @@ export default function PlayerComparison() {
         </p>
         <div className="card">
           <p style={{ marginBottom: '1rem' }}>Select players to compare (up to 5):</p>
-          <PlayerSearch players={playerList} onSelect={handleAddPlayer} />
+          <PlayerSearch onSelect={handleAddPlayer} />
           <div className="info-message" style={{ marginTop: '1rem' }}>
             Select at least 2 players to start comparing
           </div>
@@ -143,6 +129,8 @@ export default function PlayerComparison() {
     pe: { label: 'Prophecy Eggs', key: 'pe', format: formatInteger },
     te: { label: 'Truth Eggs', key: 'te', format: formatInteger },
     num_prestiges: { label: 'Prestiges', key: 'num_prestiges', format: formatInteger },
+    gains_saturday: { label: 'Saturday Gains', key: 'gains_saturday', format: bigNumberToString },
+    max_mystical_eggs: { label: 'Max Mystical Eggs', key: 'max_mystical_eggs', format: bigNumberToString },
   };
 
   const metricOptions: Record<string, string> = {
@@ -151,6 +139,8 @@ export default function PlayerComparison() {
     pe: 'Prophecy Eggs',
     te: 'Truth Eggs',
     num_prestiges: 'Number of Prestiges',
+    gains_saturday: 'Saturday Gains',
+    max_mystical_eggs: 'Max Mystical Eggs',
   };
 
   const bestPlayers: { [key: string]: PlayerSnapshot } = {};
@@ -261,7 +251,7 @@ export default function PlayerComparison() {
         </div>
 
         {selectedPlayers.length < 5 && (
-          <PlayerSearch players={playerList} onSelect={handleAddPlayer} label="Add another player (up to 5)" />
+          <PlayerSearch onSelect={handleAddPlayer} label="Add another player (up to 5)" />
         )}
       </div>
 
@@ -284,6 +274,8 @@ export default function PlayerComparison() {
               <th>PE</th>
               <th>TE</th>
               <th>Prestiges</th>
+              <th>Sat. Gains</th>
+              <th>Max MEs</th>
               <th>Role</th>
               <th>Grade</th>
             </tr>
@@ -328,6 +320,20 @@ export default function PlayerComparison() {
                   {formatInteger(player.num_prestiges)}
                   {bestPlayers.num_prestiges?.discord_id === player.discord_id && ' 🏆'}
                 </td>
+                <td style={{ 
+                  fontWeight: bestPlayers.gains_saturday?.discord_id === player.discord_id ? 'bold' : 'normal',
+                  color: bestPlayers.gains_saturday?.discord_id === player.discord_id ? '#4ade80' : 'inherit'
+                }}>
+                  {bigNumberToString(player.gains_saturday)}
+                  {bestPlayers.gains_saturday?.discord_id === player.discord_id && player.gains_saturday != null && ' 🏆'}
+                </td>
+                <td style={{ 
+                  fontWeight: bestPlayers.max_mystical_eggs?.discord_id === player.discord_id ? 'bold' : 'normal',
+                  color: bestPlayers.max_mystical_eggs?.discord_id === player.discord_id ? '#4ade80' : 'inherit'
+                }}>
+                  {bigNumberToString(player.max_mystical_eggs)}
+                  {bestPlayers.max_mystical_eggs?.discord_id === player.discord_id && player.max_mystical_eggs != null && ' 🏆'}
+                </td>
                 <td>{player.farmer_role}</td>
                 <td>{player.grade}</td>
               </tr>
@@ -1,32 +1,56 @@
 import { useState } from 'react';
-import { usePlayerList, usePlayerSnapshots, usePlayerCurrentStats } from '@/hooks/usePlayerData';
+import { usePlayerSnapshots, usePlayerCurrentStats, usePlayerEggdayGains, usePlayerRankHistory, usePlayerNameHistory } from '@/hooks/usePlayerData';
+import { usePlayerSnapshotFlags } from '@/hooks/useAdmin';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import ErrorMessage from '@/components/ErrorMessage';
 import PlayerSearch from '@/components/PlayerSearch';
-import { ProgressionChart } from '@/components/charts';
-import { formatInteger, bigNumberToString, formatLastUpdated } from '@/utils/formatters';
-import { getLatestRecord } from '@/utils/dataProcessing';
-import { CSV_EXPORT_HEADERS } from '@/config/constants';
+import EggdayGainsTable from '@/components/EggdayGainsTable';
+import WeeklyGains from '@/components/WeeklyGains';
+import { ProgressionChart, GainsChart, RankChart } from '@/components/charts';
+import { formatInteger, bigNumberToString, formatLastUpdated, formatDate } from '@/utils/formatters';
+import { getLatestRecord, getSaturdayGainsSeries } from '@/utils/dataProcessing';
+import { buildSnapshotCsv, downloadCsv } from '@/utils/csv';
+import type { PlayerNameHistoryEntry, PlayerSnapshotFlag } from '@/types';
+
+/**
+ * Progression metrics each flag casts doubt on. A role mismatch means the
+ * stored EB or role is off; grades aren't charted.
+ */
+const FLAG_METRICS: Record<PlayerSnapshotFlag['flag'], string[]> = {
+  se_decrease: ['se'],
+  pe_decrease: ['pe'],
+  role_mismatch: ['eb'],
+  grade_change: [],
+};
+
+/**
+ * Readable description of a snapshot flag (chart hover text)
+ */
+function describeFlag(flag: PlayerSnapshotFlag): string {
+  const from = Number(flag.previous_value);
+  const to = Number(flag.current_value);
+  switch (flag.flag) {
+    case 'se_decrease':
+      return `SE decreased (${bigNumberToString(from)} → ${bigNumberToString(to)})`;
+    case 'pe_decrease':
+      return `PE decreased (${formatInteger(from)} → ${formatInteger(to)})`;
+    case 'role_mismatch':
+      return `Role ${flag.current_value} doesn't match EB (expected ${flag.expected_value})`;
+    case 'grade_change':
+      return `Grade changed (${flag.previous_value?.toUpperCase()} → ${flag.current_value?.toUpperCase()})`;
+  }
+}
 
 export default function PlayerLookup() {
   const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
   const [selectedMetric, setSelectedMetric] = useState('eb');
-  const { data: playerList, isLoading: listLoading } = usePlayerList();
+  const [hideFlagged, setHideFlagged] = useState(false);
   const { data: snapshots, isLoading: snapshotsLoading, error, refetch } = usePlayerSnapshots(selectedPlayer);
   const { data: currentStatsData, isLoading: isLoadingCurrent, error: errorCurrent } = usePlayerCurrentStats(selectedPlayer);
-
-  if (listLoading) {
-    return <LoadingSpinner text="Loading player list..." />;
-  }
-
-  if (!playerList || playerList.length === 0) {
-    return (
-      <ErrorMessage
-        title="No Players Found"
-        message="No player data available in the database."
-      />
-    );
-  }
+  const { data: eggdayGains, isLoading: isLoadingEggday } = usePlayerEggdayGains(selectedPlayer);
+  const { data: rankHistory, isLoading: isLoadingRanks } = usePlayerRankHistory(selectedPlayer);
+  const { data: nameHistory } = usePlayerNameHistory(selectedPlayer);
+  const { data: snapshotFlags } = usePlayerSnapshotFlags(selectedPlayer);
 
   const handlePlayerSelect = (discordId: string) => {
     setSelectedPlayer(discordId);
@@ -38,7 +62,7 @@ export default function PlayerLookup() {
         <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Player Lookup</h1>
         <div className="card">
           <p style={{ marginBottom: '1rem' }}>Select a player to view their detailed profile and statistics:</p>
-          <PlayerSearch players={playerList} onSelect={handlePlayerSelect} />
+          <PlayerSearch onSelect={handlePlayerSelect} />
         </div>
       </div>
     );
@@ -62,7 +86,7 @@ export default function PlayerLookup() {
     return (
       <div className="container">
         <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Player Lookup</h1>
-        <PlayerSearch players={playerList} onSelect={handlePlayerSelect} />
+        <PlayerSearch onSelect={handlePlayerSelect} />
         <ErrorMessage
           title="No Data Found"
           message="No snapshot data found for this player."
@@ -83,8 +107,17 @@ export default function PlayerLookup() {
     pe: 'Prophecy Eggs',
     te: 'Truth Eggs',
     num_prestiges: 'Number of Prestiges',
+    gains_saturday: 'Saturday Gains',
+    max_mystical_eggs: 'Max Mystical Eggs',
   };
 
+  // Data quality flags (admins only) for the selected metric, grouped per snapshot
+  const flagLabels = new Map<string, string[]>();
+  (snapshotFlags || []).filter(flag => FLAG_METRICS[flag.flag].includes(selectedMetric)).forEach(flag => {
+    flagLabels.set(flag.snapshot_date, [...(flagLabels.get(flag.snapshot_date) || []), describeFlag(flag)]);
+  });
+  const chartFlags = [...flagLabels].map(([snapshot_date, labels]) => ({ snapshot_date, labels }));
+
   // Prepare chart data for selected metric
   // Filter out null/undefined values instead of filling with 0
   const chartData = snapshots
@@ -94,6 +127,7 @@ export default function PlayerLookup() {
     }))
     .filter(d => d.value != null)
     .map(d => ({ snapshot_date: d.snapshot_date, value: d.value as number }))
+    .filter(d => !hideFlagged || !flagLabels.has(d.snapshot_date))
     .sort((a, b) => new Date(a.snapshot_date).getTime() - new Date(b.snapshot_date).getTime());
 
   // Determine if log scale should be used
@@ -108,12 +142,48 @@ export default function PlayerLookup() {
   const seGain = latest.se - oldest.se;
   const peGain = latest.pe - oldest.pe;
 
+  // Known names come from player_name_history; fall back to the loaded snapshots
+  // (and current stats) for players whose history hasn't been recorded yet
+  const nameTypes: Array<{ type: PlayerNameHistoryEntry['name_type']; title: string }> = [
+    { type: 'discord_name', title: 'Discord Names' },
+    { type: 'ign', title: 'IGN' },
+    { type: 'display_name', title: 'Display Names' },
+  ];
+  const knownNames = Object.fromEntries(nameTypes.map(({ type }) => {
+    const history = (nameHistory || [])
+      .filter(entry => entry.name_type === type)
+      .sort((a, b) => new Date(b.last_seen_at).getTime() - new Date(a.last_seen_at).getTime())
+      .map(entry => ({ name: entry.name, firstSeen: entry.first_seen_at, lastSeen: entry.last_seen_at }));
+    if (history.length > 0) return [type, history];
+
+    const fallback = [
+      ...(currentStatsData?.player?.[type] ? [currentStatsData.player[type] as string] : []),
+      ...[...snapshots]
+        .sort((a, b) => new Date(b.snapshot_date).getTime() - new Date(a.snapshot_date).getTime())
+        .map(s => s[type]),
+    ].filter((name): name is string => name != null && name.trim() !== '');
+    return [type, Array.from(new Set(fallback)).map(name => ({ name, firstSeen: null, lastSeen: null }))];
+  })) as Record<PlayerNameHistoryEntry['name_type'], Array<{ name: string; firstSeen: string | null; lastSeen: string | null }>>;
+
+  // Each name after the first of its type is a change from the name seen before it
+  const nameChanges = nameTypes
+    .flatMap(({ type }) => (nameHistory || [])
+      .filter(entry => entry.name_type === type)
+      .map((entry, index, entries) => index === 0 ? null : {
+        type,
+        date: entry.first_seen_at,
+        from: entries[index - 1].name,
+        to: entry.name,
+      }))
+    .filter((change): change is NonNullable<typeof change> => change !== null)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
   return (
     <div className="container">
       <h1 style={{ fontSize: '2rem', marginBottom: '1.5rem' }}>Player Lookup</h1>
 
       <div className="card" style={{ marginBottom: '2rem' }}>
-        <PlayerSearch players={playerList} onSelect={handlePlayerSelect} />
+        <PlayerSearch onSelect={handlePlayerSelect} />
       </div>
 
       <div className="info-message" style={{ marginBottom: '2rem' }}>
@@ -189,6 +259,14 @@ export default function PlayerLookup() {
                 <td style={{ fontWeight: '500' }}>Prestiges</td>
                 <td>{currentStatsData.player.num_prestiges != null ? formatInteger(currentStatsData.player.num_prestiges) : 'N/A'}</td>
               </tr>
+              <tr>
+                <td style={{ fontWeight: '500' }}>Saturday Gains</td>
+                <td>{bigNumberToString(currentStatsData.player.gains_saturday)}</td>
+              </tr>
+              <tr>
+                <td style={{ fontWeight: '500' }}>Max Mystical Eggs</td>
+                <td>{bigNumberToString(currentStatsData.player.max_mystical_eggs)}</td>
+              </tr>
               <tr>
                 <td style={{ fontWeight: '500' }}>Role</td>
                 <td>{currentStatsData.player.farmer_role || 'N/A'}</td>
@@ -209,72 +287,51 @@ export default function PlayerLookup() {
       {/* Known Names */}
       <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Known Names</h2>
       <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: '1rem', marginBottom: '2rem' }}>
-        {/* Discord Names */}
-        <div className="card" style={{ maxHeight: '300px', overflowY: 'auto' }}>
-          <h3 style={{ marginTop: 0, marginBottom: '1rem', fontSize: '1.1rem' }}>Discord Names</h3>
-          <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
-            {Array.from(
-              new Set([
-                ...(currentStatsData?.player?.discord_name ? [currentStatsData.player.discord_name] : []),
-              ])
-            )
-              .sort()
-              .map((name, index) => (
-                <li key={name} style={{ padding: '0.5rem 0', borderTop: index > 0 ? '1px solid var(--color-border)' : 'none' }}>
-                  {name}
-                </li>
-              ))}
-          </ul>
-        </div>
-
-        {/* IGN Names */}
-        <div className="card" style={{ maxHeight: '300px', overflowY: 'auto' }}>
-          <h3 style={{ marginTop: 0, marginBottom: '1rem', fontSize: '1.1rem' }}>IGN</h3>
-          <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
-            {Array.from(
-              new Map(
-                [
-                  ...(currentStatsData?.player?.ign ? [{name: currentStatsData.player.ign, date: new Date().toISOString()}] : []),
-                  ...snapshots
-                    .map(s => ({name: s.ign, date: s.snapshot_date}))
-                    .filter(item => item.name != null && item.name.trim() !== '')
-                ]
-                .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-                .map(item => [item.name, item])
-              ).values()
-            )
-              .map((item, index) => (
-                <li key={item.name} style={{ padding: '0.5rem 0', borderTop: index > 0 ? '1px solid var(--color-border)' : 'none' }}>
+        {nameTypes.map(({ type, title }) => (
+          <div key={type} className="card" style={{ maxHeight: '300px', overflowY: 'auto' }}>
+            <h3 style={{ marginTop: 0, marginBottom: '1rem', fontSize: '1.1rem' }}>{title}</h3>
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+              {knownNames[type].map((item, index) => (
+                <li key={`${item.name}-${item.firstSeen}`} style={{ padding: '0.5rem 0', borderTop: index > 0 ? '1px solid var(--color-border)' : 'none' }}>
                   {item.name}
+                  {item.firstSeen && item.lastSeen && (
+                    <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                      {formatDate(item.firstSeen)} – {formatDate(item.lastSeen)}
+                    </div>
+                  )}
                 </li>
               ))}
-          </ul>
-        </div>
+            </ul>
+          </div>
+        ))}
+      </div>
 
-        {/* Display Names */}
-        <div className="card" style={{ maxHeight: '300px', overflowY: 'auto' }}>
-          <h3 style={{ marginTop: 0, marginBottom: '1rem', fontSize: '1.1rem' }}>Display Names</h3>
-          <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
-            {Array.from(
-              new Map(
-                [
-                  ...(currentStatsData?.player?.display_name ? [{name: currentStatsData.player.display_name, date: new Date().toISOString()}] : []),
-                  ...snapshots
-                    .map(s => ({name: s.display_name, date: s.snapshot_date}))
-                    .filter((item): item is {name: string, date: string} => item.name != null && item.name.trim() !== '')
-                ]
-                .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-                .map(item => [item.name, item])
-              ).values()
-            )
-              .map((item, index) => (
-                <li key={item.name} style={{ padding: '0.5rem 0', borderTop: index > 0 ? '1px solid var(--color-border)' : 'none' }}>
-                  {item.name}
-                </li>
+      {/* Name Change Timeline */}
+      {nameChanges.length > 0 && (
+        <div className="card" style={{ marginBottom: '2rem' }}>
+          <h3 style={{ marginTop: 0, marginBottom: '1rem', fontSize: '1.1rem' }}>Name Changes</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>First Seen</th>
+                <th>Type</th>
+                <th>From</th>
+                <th>To</th>
+              </tr>
+            </thead>
+            <tbody>
+              {nameChanges.map(change => (
+                <tr key={`${change.type}-${change.date}`}>
+                  <td>{formatDate(change.date)}</td>
+                  <td>{nameTypes.find(t => t.type === change.type)?.title}</td>
+                  <td>{change.from}</td>
+                  <td><strong>{change.to}</strong></td>
+                </tr>
               ))}
-          </ul>
+            </tbody>
+          </table>
         </div>
-      </div>
+      )}
 
       <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
 
@@ -295,6 +352,12 @@ export default function PlayerLookup() {
               <option key={key} value={key}>{label}</option>
             ))}
           </select>
+          {chartFlags.length > 0 && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', marginTop: '0.75rem' }}>
+              <input type="checkbox" checked={hideFlagged} onChange={(e) => setHideFlagged(e.target.checked)} />
+              Hide flagged snapshots ({chartFlags.length} with suspicious data)
+            </label>
+          )}
         </div>
         <ProgressionChart
           data={chartData}
@@ -302,6 +365,7 @@ export default function PlayerLookup() {
           yAxisTitle={metricOptions[selectedMetric]}
           useLogScale={useLogScale}
           showMarkers={true}
+          flags={hideFlagged ? [] : chartFlags}
         />
       </div>
 
@@ -333,6 +397,46 @@ export default function PlayerLookup() {
 
       <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
 
+      {/* Weekly Gains */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Weekly Gains</h2>
+      <div style={{ marginBottom: '2rem' }}>
+        <WeeklyGains snapshots={snapshots} />
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Rank History */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Guild Rank History</h2>
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        {isLoadingRanks ? (
+          <LoadingSpinner text="Loading rank history..." />
+        ) : (
+          <RankChart data={rankHistory || []} />
+        )}
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Saturday Gains */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Saturday Gains</h2>
+      <div className="card" style={{ marginBottom: '2rem' }}>
+        <GainsChart data={getSaturdayGainsSeries(snapshots)} title="Saturday Gains Over Time" />
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
+      {/* Egg Day Gains */}
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Egg Day Gains</h2>
+      <div style={{ marginBottom: '2rem' }}>
+        {isLoadingEggday ? (
+          <LoadingSpinner text="Loading Egg Day gains..." />
+        ) : (
+          <EggdayGainsTable gains={eggdayGains || []} />
+        )}
+      </div>
+
+      <hr style={{ margin: '2rem 0', border: 'none', borderTop: '1px solid var(--color-border)' }} />
+
       {/* Historical Snapshots */}
       <h2 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>Historical Snapshots</h2>
       <div className="card" style={{ overflowX: 'auto' }}>
@@ -370,24 +474,7 @@ export default function PlayerLookup() {
 
       <div style={{ marginTop: '2rem' }}>
         <button
-          onClick={() => {
-            const csv = [[...CSV_EXPORT_HEADERS].join(',')];
-            snapshots.forEach(snapshot => {
-              const row = CSV_EXPORT_HEADERS.map(header => {
-                const value = snapshot[header];
-                return value != null ? `"${value}"` : '""';
-              });
-              csv.push(row.join(','));
-            });
-            const csvString = csv.join('\n');
-            const blob = new Blob([csvString], { type: 'text/csv' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `${latest.ign}_history.csv`;
-            a.click();
-            URL.revokeObjectURL(url);
-          }}
+          onClick={() => downloadCsv(buildSnapshotCsv(snapshots), `${latest.ign}_history.csv`)}
           className="button button-primary"
         >
           📥 Download History as CSV
@@ -37,7 +37,7 @@ export function canViewAllData(accessLevel: AccessLevel): boolean {
 /**
  * Get the Discord avatar URL for a user
  */
-export function getDiscordAvatarUrl(user: DiscordUser | null, size: number = 128): string | null {
+export function getDiscordAvatarUrl(user: Pick<DiscordUser, 'discord_id' | 'avatar'> | null, size: number = 128): string | null {
   if (!user || !user.avatar) {
     return null;
   }
@@ -17,10 +17,180 @@ export interface PlayerSnapshot {
   grade: string;
   is_guest: boolean;
   active: boolean;
+  gains_saturday: number | null;
+  max_mystical_eggs: number | null;
   snapshot_date: string;
   imported_at?: string;
 }
 
+/**
+ * A player's guild rank per metric at one snapshot (get_player_rank_history RPC).
+ * Ranked among active players (player_count); prestige_rank is null for non-admins.
+ */
+export interface PlayerRankHistoryEntry {
+  snapshot_date: string;
+  eb_rank: number | null;
+  se_rank: number | null;
+  pe_rank: number | null;
+  te_rank: number | null;
+  prestige_rank: number | null;
+  player_count: number;
+}
+
+/**
+ * One stint of a name a player has been seen with (player_name_history table).
+ * Switching back to an earlier name starts a new entry.
+ */
+export interface PlayerNameHistoryEntry {
+  discord_id: string;
+  name_type: 'ign' | 'display_name' | 'discord_name';
+  name: string;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+/**
+ * Suspicious data in one of a player's snapshots (player_snapshot_flags table, admin only)
+ */
+export interface PlayerSnapshotFlag {
+  snapshot_date: string;
+  discord_id: string;
+  flag: 'se_decrease' | 'pe_decrease' | 'role_mismatch' | 'grade_change';
+  previous_value: string | null;
+  current_value: string | null;
+  expected_value: string | null;
+}
+
+/**
+ * A match from the search_players RPC.
+ * matched_name is the (possibly historic) name that matched the query.
+ */
+export interface PlayerSearchResult {
+  discord_id: string;
+  ign: string | null;
+  display_name: string | null;
+  discord_name: string | null;
+  grade: string | null;
+  avatar: string | null;
+  matched_name: string;
+  is_current_name: boolean;
+  score: number;
+}
+
+/**
+ * A player's rank and percentile for one metric within their grade
+ */
+export interface MetricStanding {
+  rank: number;
+  percentile: number; // % of ranked grade players with a lower value
+  rankedCount: number;
+}
+
+/**
+ * Standing within grade returned by get-player-current-stats.
+ * num_prestiges is null for non-admins.
+ */
+export interface GradeStanding {
+  grade: string;
+  playerCount: number;
+  metrics: {
+    eb: MetricStanding | null;
+    se: MetricStanding | null;
+    pe: MetricStanding | null;
+    te: MetricStanding | null;
+    num_prestiges: MetricStanding | null;
+  };
+}
+
+/**
+ * Guild-wide distribution of one metric: histogram bins plus five-number summary.
+ * Log-scale bins are evenly spaced in log10.
+ */
+export interface MetricDistribution {
+  scale: 'log' | 'linear';
+  bins: Array<{ start: number; end: number; count: number }>;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+export type GuildMetricStanding = MetricStanding & { distribution: MetricDistribution };
+
+/**
+ * Standing across the whole guild returned by get-player-current-stats.
+ * num_prestiges is null for non-admins.
+ */
+export interface GuildStanding {
+  playerCount: number;
+  metrics: {
+    eb: GuildMetricStanding | null;
+    se: GuildMetricStanding | null;
+    pe: GuildMetricStanding | null;
+    te: GuildMetricStanding | null;
+    num_prestiges: GuildMetricStanding | null;
+  };
+}
+
+/**
+ * Change in one metric between two snapshots
+ */
+export interface MetricDelta {
+  from: number;
+  to: number;
+  gain: number;
+  gainPct: number | null;
+}
+
+/**
+ * Top gainers row returned by the get-top-gainers Edge Function.
+ * A delta is null when either snapshot lacks the value
+ * (num_prestiges is always null for non-admins).
+ */
+export interface TopGainerEntry {
+  discord_id: string;
+  ign: string;
+  display_name: string | null;
+  discord_name: string;
+  grade: string;
+  farmer_role: string | null;
+  active: boolean;
+  deltas: {
+    eb: MetricDelta | null;
+    se: MetricDelta | null;
+    pe: MetricDelta | null;
+    te: MetricDelta | null;
+    num_prestiges: MetricDelta | null;
+  };
+}
+
+/**
+ * Per-player Egg Day start/end values for a single year (eggday_gains table)
+ */
+export interface EggdayGain {
+  discord_id: string;
+  year: number;
+  start_se: number | null;
+  start_pe: number | null;
+  start_eb: number | null;
+  start_role: string | null;
+  start_prestiges: number | null;
+  end_se: number | null;
+  end_pe: number | null;
+  end_eb: number | null;
+  end_role: string | null;
+  end_prestiges: number | null;
+}
+
+/**
+ * Egg Day leaderboard row returned by the get-eggday-leaderboard Edge Function
+ */
+export interface EggdayLeaderboardEntry extends EggdayGain {
+  ign: string | null;
+  discord_name: string | null;
+}
+
 export interface SnapshotMetadata {
   id?: number;
   snapshot_date: string;
@@ -28,6 +198,218 @@ export interface SnapshotMetadata {
   imported_at: string;
 }
 
+/**
+ * Result of one snapshot decision run by refresh-leaderboard-cron
+ * (mirrors SnapshotDecision in supabase/functions/_shared/types.ts, dates serialized as strings)
+ */
+export interface SnapshotDecision {
+  shouldSave: boolean;
+  syncPercentage: number;
+  playersInSyncWindow: number;
+  totalNonExcludedPlayers: number;
+  totalPlayersReceived: number;
+  excludedPlayerCount: number;
+  lowestUpdatedAt: string | null;
+  timeSinceLowestUpdateHours: number;
+  hoursSinceLastSave: number;
+  reason: string;
+  isPendingSync: boolean;
+  pendingAttemptCount: number;
+  missingPlayers?: Array<{
+    discord_id: string;
+    ign: string;
+    updatedAt: string;
+    timeDifferenceHours: number;
+  }>;
+}
+
+/**
+ * Snapshot decision state from snapshot_save_metadata (admin only).
+ * pending_sync_data is left out - it holds the full player payload.
+ */
+export interface SnapshotSaveState {
+  last_saved_at: string | null;
+  last_decision_at: string | null;
+  last_decision_result: SnapshotDecision | null;
+  last_email_sent_at: string | null;
+  last_email_type: string | null;
+  pending_sync_first_attempt: string | null;
+  pending_sync_attempt_count: number;
+  updated_at: string;
+}
+
+/**
+ * One refresh-leaderboard-cron decision from snapshot_decision_log
+ */
+export interface SnapshotDecisionLogEntry {
+  id: number;
+  decided_at: string;
+  should_save: boolean;
+  sync_percentage: number;
+  players_in_sync_window: number;
+  total_non_excluded_players: number;
+  missing_player_count: number;
+  excluded_player_count: number;
+  hours_since_last_save: number | null;
+  reason: string;
+  is_pending_sync: boolean;
+  pending_attempt_count: number;
+  snapshot_saved: boolean;
+  snapshot_date: string | null;
+  /** Why a decision to save didn't produce a snapshot */
+  save_error: string | null;
+  /** The data quality checks refused the snapshot (save_error is the reason) */
+  save_blocked: boolean;
+}
+
+/**
+ * Implausible change in one metric since the player's previous snapshot
+ */
+export interface SnapshotAnomaly {
+  discord_id: string;
+  ign: string;
+  metric: 'eb' | 'se' | 'pe' | 'te' | 'num_prestiges';
+  kind: 'drop' | 'jump';
+  previous: number;
+  current: number;
+  changeFraction: number;
+}
+
+/**
+ * Data quality check run by update-player-data before saving a snapshot
+ */
+export interface SnapshotQualityReport {
+  previousSnapshotDate: string | null;
+  playersCompared: number;
+  anomalousPlayers: number;
+  anomalousFraction: number;
+  blockFraction: number | null;
+  blocked: boolean;
+  anomalies: SnapshotAnomaly[];
+}
+
+/**
+ * Response from the update-player-data Edge Function
+ */
+export interface UpdatePlayerDataResult {
+  success: boolean;
+  dryRun?: boolean;
+  snapshotDate: string;
+  playerCount: number;
+  snapshots: { inserted: number }; // All-or-nothing: a failed import is an error response
+  eggdayGains: { inserted: number };
+  quarantinedRows?: number; // Invalid bot API rows left out of the snapshot
+  qualityCheck?: SnapshotQualityReport;
+  refreshMaterializedViewsResponse?: string;
+  message?: string;
+  emailSent?: boolean;
+  emailError?: string;
+}
+
+/**
+ * Response from the delete-snapshot Edge Function
+ */
+export interface DeleteSnapshotResult {
+  success: boolean;
+  snapshotDate: string;
+  deletedRecords: number;
+  archived: boolean;
+  purgeAfter: string;
+  message: string;
+  performedBy: string;
+  refreshMaterializedViewsResponse?: string;
+}
+
+/**
+ * Response from the restore-snapshot Edge Function
+ */
+export interface RestoreSnapshotResult {
+  success: boolean;
+  snapshotDate: string;
+  restoredRecords: number;
+  message: string;
+  performedBy: string;
+  refreshMaterializedViewsResponse?: string;
+}
+
+/**
+ * A deleted snapshot kept in snapshot_metadata_archive until purge_after
+ */
+export interface ArchivedSnapshot {
+  snapshot_date: string;
+  record_count: number;
+  imported_at: string | null;
+  archived_at: string;
+  archived_by: string;
+  purge_after: string;
+}
+
+/**
+ * An excluded_players entry, with the player's IGN and current updatedAt from the bot API
+ */
+export interface ExcludedPlayer {
+  discord_id: string;
+  reason: string;
+  excluded_at: string;
+  excluded_by: string | null;
+  notes: string | null;
+  expires_at: string | null;
+  expire_on_sync: boolean;
+  ign: string | null;
+  updated_at: string | null;
+  expired: boolean;
+}
+
+/**
+ * A player that repeatedly missed the snapshot sync window
+ */
+export interface ExclusionCandidate {
+  discord_id: string;
+  ign: string;
+  miss_count: number;
+  days_missed: number;
+  last_missed_at: string;
+  updated_at: string | null;
+}
+
+/**
+ * A player outside the sync window in consecutive snapshot decisions
+ */
+export interface PlayerSyncStreak {
+  discord_id: string;
+  ign: string;
+  consecutive_misses: number;
+  streak_started_at: string;
+  last_missed_at: string;
+  last_updated_at: string | null;
+  digest_sent_at: string | null;
+}
+
+/**
+ * GET response from the manage-excluded-players Edge Function
+ */
+export interface ExcludedPlayersResponse {
+  excluded: ExcludedPlayer[];
+  candidates: ExclusionCandidate[];
+  candidateCriteria: { lookbackDays: number; minDays: number };
+  chronicDesync: PlayerSyncStreak[];
+  desyncStreakThreshold: number;
+}
+
+/**
+ * One admin action from admin_audit_log
+ */
+export interface AdminAuditLogEntry {
+  id: number;
+  action: string;
+  performed_by: string;
+  auth_method: 'admin_jwt' | 'secret_token' | 'service_role' | 'database';
+  parameters: Record<string, unknown>;
+  result: Record<string, unknown> | null;
+  success: boolean;
+  created_at: string;
+}
+
 /**
  * Discord user info returned from the Edge Function
  */
@@ -91,11 +473,6 @@ export interface AuthState {
   expiresAt: number | null;
 }
 
-export interface PlayerListItem {
-  label: string;
-  discordId: string;
-}
-
 export type AccessLevel = 'admin' | 'user';
 
 export interface ChartData {
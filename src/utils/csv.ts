@@ -0,0 +1,51 @@
+// CSV export helpers for player snapshot history
+
+import { CSV_EXPORT_HEADERS, WEEKLY_GAIN_METRICS } from '@/config/constants';
+import type { PlayerSnapshot } from '@/types';
+import { calculateWeeklyGains } from '@/utils/dataProcessing';
+
+/**
+ * Build a CSV of a player's snapshots with week-over-week gain columns
+ * (`<metric>_gain` and `<metric>_gain_pct`) for each metric in WEEKLY_GAIN_METRICS.
+ * Rows keep the order of the input snapshots.
+ */
+export function buildSnapshotCsv(snapshots: PlayerSnapshot[]): string {
+  // Gains keyed by metric then snapshot_date
+  const gainsByMetric: Record<string, Record<string, { gain: number; gainPct: number }>> = {};
+  WEEKLY_GAIN_METRICS.forEach(metric => {
+    gainsByMetric[metric] = {};
+    calculateWeeklyGains(snapshots, metric).slice(1).forEach(week => {
+      gainsByMetric[metric][week.snapshot_date] = { gain: week.gain, gainPct: week.gainPct };
+    });
+  });
+
+  const gainHeaders = WEEKLY_GAIN_METRICS.flatMap(metric => [`${metric}_gain`, `${metric}_gain_pct`]);
+  const csv = [[...CSV_EXPORT_HEADERS, ...gainHeaders].join(',')];
+
+  snapshots.forEach(snapshot => {
+    const row = CSV_EXPORT_HEADERS.map(header => {
+      const value = snapshot[header];
+      return value != null ? `"${value}"` : '""';
+    });
+    WEEKLY_GAIN_METRICS.forEach(metric => {
+      const week = gainsByMetric[metric][snapshot.snapshot_date];
+      row.push(week ? `"${week.gain}"` : '""', week ? `"${week.gainPct.toFixed(4)}"` : '""');
+    });
+    csv.push(row.join(','));
+  });
+
+  return csv.join('\n');
+}
+
+/**
+ * Trigger a browser download of CSV content
+ */
+export function downloadCsv(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,5 +1,5 @@
 // Data processing utilities
-import type { PlayerSnapshot, ChartData, GrowthData } from '@/types';
+import type { PlayerSnapshot, ChartData, GrowthData, EggdayGain } from '@/types';
 import { EBtoRole } from '@/utils/eb';
 
 /**
@@ -69,6 +69,117 @@ export function calculateWeeklyGains(
   });
 }
 
+/**
+ * Summarize a weekly gains series from calculateWeeklyGains.
+ * The first entry is the baseline (no previous week) and is skipped.
+ * A streak is a run of consecutive weeks with a positive gain.
+ * Best and worst week are picked by `getValue` (absolute gain by default).
+ */
+export function summarizeWeeklyGains<T extends { snapshot_date: string; gain: number; gainPct: number }>(
+  gains: T[],
+  getValue: (week: T) => number = week => week.gain
+): {
+  currentStreak: number;
+  longestStreak: number;
+  best: T | null;
+  worst: T | null;
+} {
+  const weeks = gains.slice(1);
+  let currentStreak = 0;
+  let longestStreak = 0;
+  let best: T | null = null;
+  let worst: T | null = null;
+
+  for (const week of weeks) {
+    currentStreak = week.gain > 0 ? currentStreak + 1 : 0;
+    longestStreak = Math.max(longestStreak, currentStreak);
+    if (!best || getValue(week) > getValue(best)) best = week;
+    if (!worst || getValue(week) < getValue(worst)) worst = week;
+  }
+
+  return { currentStreak, longestStreak, best, worst };
+}
+
+/**
+ * Trailing average over the last `window` values (fewer at the start of the series).
+ */
+export function calculateRollingAverage(values: number[], window: number = 4): number[] {
+  return values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+    return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+  });
+}
+
+/**
+ * Rank items by a numeric value, highest first.
+ * Items with a null/undefined value are left unranked.
+ * Tied values share a rank and the next rank skips ahead (1, 1, 3).
+ *
+ * @returns Map of item id to rank
+ */
+export function computeRanks<T>(
+  items: T[],
+  getValue: (item: T) => number | null | undefined,
+  getId: (item: T) => string
+): Record<string, number> {
+  const sorted = items
+    .filter(item => getValue(item) != null)
+    .sort((a, b) => (getValue(b) as number) - (getValue(a) as number));
+
+  const ranks: Record<string, number> = {};
+  let currentRank = 1;
+  let previousValue: number | null = null;
+
+  sorted.forEach((item, idx) => {
+    const currentValue = getValue(item) as number;
+
+    if (previousValue !== null && currentValue !== previousValue) {
+      currentRank = idx + 1;
+    }
+
+    ranks[getId(item)] = currentRank;
+    previousValue = currentValue;
+  });
+
+  return ranks;
+}
+
+/**
+ * Saturday gains over time, oldest first, for GainsChart.
+ * Snapshots without a gains_saturday value are skipped.
+ */
+export function getSaturdayGainsSeries(
+  snapshots: PlayerSnapshot[]
+): Array<{ snapshot_date: string; gain: number }> {
+  return snapshots
+    .filter(s => s.gains_saturday != null)
+    .map(s => ({ snapshot_date: s.snapshot_date, gain: Number(s.gains_saturday) }))
+    .sort((a, b) => new Date(a.snapshot_date).getTime() - new Date(b.snapshot_date).getTime());
+}
+
+export type EggdayMetric = 'se' | 'pe' | 'eb';
+
+/**
+ * Calculate a player's Egg Day gain for a metric.
+ * Returns null when the start or end value was not recorded.
+ */
+export function calculateEggdayGain(
+  entry: EggdayGain,
+  metric: EggdayMetric
+): { start: number; end: number; gain: number; gainPct: number | null } | null {
+  const start = entry[`start_${metric}`];
+  const end = entry[`end_${metric}`];
+
+  if (start == null || end == null) {
+    return null;
+  }
+
+  const gain = end - start;
+  const gainPct = start !== 0 ? (gain / start) * 100 : null;
+
+  return { start, end, gain, gainPct };
+}
+
 export function filterDateRange(
   snapshots: PlayerSnapshot[],
   weeksBack: number = 52
@@ -122,7 +233,7 @@ export function calculateGrowth(
 export function aggregateStats(snapshots: PlayerSnapshot[]): {
   [key: string]: { mean: number; median: number; min: number; max: number };
 } {
-  const numericColumns: Array<keyof PlayerSnapshot> = ['eb', 'se', 'pe', 'te', 'num_prestiges'];
+  const numericColumns: Array<keyof PlayerSnapshot> = ['eb', 'se', 'pe', 'te', 'num_prestiges', 'gains_saturday', 'max_mystical_eggs'];
   const stats: { [key: string]: { mean: number; median: number; min: number; max: number } } = {};
 
   numericColumns.forEach((col) => {
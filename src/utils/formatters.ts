@@ -210,4 +210,16 @@ export function formatLastUpdated(dateString: string): string {
   });
   
   return `${month} ${ordinal(day)}, ${time}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Format an ISO 8601 timestamp as a date in the same YYYY-MM-DD form as snapshot dates
+ * @param dateString ISO 8601 date string
+ * @returns Date string (UTC)
+ * 
+ * @example
+ * formatDate('2024-08-15T14:30:00Z') // "2024-08-15"
+ */
+export function formatDate(dateString: string): string {
+  return new Date(dateString).toISOString().split('T')[0];
+}
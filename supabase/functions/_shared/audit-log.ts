@@ -0,0 +1,53 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+// ============================================================================
+// Admin Audit Log
+// ============================================================================
+// Writes admin actions to admin_audit_log (see migration 013_admin_audit_log.sql)
+
+/**
+ * How the caller of an admin action authenticated
+ */
+export type AuditAuthMethod = 'admin_jwt' | 'secret_token' | 'service_role';
+
+/**
+ * One audit log entry
+ */
+export interface AuditLogEntry {
+  action: string;
+  performedBy: string;
+  authMethod: AuditAuthMethod;
+  parameters?: Record<string, unknown>;
+  result?: Record<string, unknown> | null;
+  success?: boolean;
+}
+
+/**
+ * Write an admin action to admin_audit_log.
+ * Failures are logged but never thrown - the action itself has already
+ * happened and must still be reported to the caller.
+ *
+ * @param supabase - Service role client
+ * @param entry - What was done, by whom, and the outcome
+ */
+export async function writeAuditLog(supabase, entry: AuditLogEntry): Promise<void> {
+  const row = {
+    action: entry.action,
+    performed_by: entry.performedBy,
+    auth_method: entry.authMethod,
+    parameters: entry.parameters ?? {},
+    result: entry.result ?? null,
+    success: entry.success ?? true,
+  };
+
+  console.log('Audit log:', JSON.stringify(row));
+
+  try {
+    const { error } = await supabase.from('admin_audit_log').insert(row);
+    if (error) {
+      console.error('Failed to write audit log:', error.message);
+    }
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
@@ -0,0 +1,381 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+// ============================================================================
+// Player Data Source
+// ============================================================================
+// Single code path for loading player data from the bot API (Wonky endpoint)
+// or a local fixture file, used by get-leaderboard, refresh-leaderboard-cron,
+// update-player-data and manage-excluded-players.
+//
+// SOURCE SELECTION (getPlayerDataSource):
+// - PLAYER_DATA_FIXTURE set: read players from that JSON file (local stub)
+// - otherwise: fetch WONKY_ENDPOINT_URL with timeout + retries
+//
+// VALIDATION:
+// Every row is checked against the BotApiPlayer shape. Invalid rows are left
+// out and reported per row (index, discord_id, errors) instead of failing the
+// whole load; callers quarantine them (quarantine.ts). Loading fails only if
+// the response isn't an array or no valid rows remain.
+
+import type { BotApiPlayer, LeaderboardCacheEntry } from './types.ts';
+
+/**
+ * Fetch tuning for the HTTP source
+ */
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 2; // Attempts after the first one
+const DEFAULT_BACKOFF_MS = 1000; // Doubled after every failed attempt
+
+/**
+ * A place player data can be loaded from
+ */
+export interface PlayerDataSource {
+  name: string;
+  /** Raw JSON as returned by the source (validated by loadPlayers) */
+  fetchRaw(): Promise<unknown>;
+}
+
+/**
+ * Validation problems for one row of the source data
+ */
+export interface PlayerRowError {
+  index: number;
+  discordId: string | null;
+  errors: string[];
+  raw: unknown;
+}
+
+/**
+ * Result of parsing a full source response
+ */
+export interface ParsePlayersResult {
+  players: BotApiPlayer[];
+  rowErrors: PlayerRowError[];
+}
+
+/**
+ * Result of loadPlayers
+ */
+export interface LoadPlayersResult extends ParsePlayersResult {
+  source: string;
+}
+
+// ============================================================================
+// Parsing and validation
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Finite numbers only - numeric strings are a contract violation
+ */
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function requiredString(row: Record<string, unknown>, key: string, errors: string[]): string {
+  const value = row[key];
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${key} must be a non-empty string`);
+    return '';
+  }
+  return value;
+}
+
+function requiredNumber(row: Record<string, unknown>, key: string, errors: string[]): number {
+  const value = toNumber(row[key]);
+  if (value === undefined) {
+    errors.push(`${key} must be a number`);
+    return 0;
+  }
+  return value;
+}
+
+function optionalNumber(row: Record<string, unknown>, key: string, errors: string[]): number | null {
+  if (row[key] === undefined || row[key] === null) return null;
+  const value = toNumber(row[key]);
+  if (value === undefined) {
+    errors.push(`${key} must be a number or null`);
+    return null;
+  }
+  return value;
+}
+
+function optionalString(row: Record<string, unknown>, key: string, errors: string[]): string | null {
+  if (row[key] === undefined || row[key] === null) return null;
+  if (typeof row[key] !== 'string') {
+    errors.push(`${key} must be a string or null`);
+    return null;
+  }
+  return row[key] as string;
+}
+
+function optionalBoolean(row: Record<string, unknown>, key: string, errors: string[]): boolean | undefined {
+  if (row[key] === undefined || row[key] === null) return undefined;
+  if (typeof row[key] !== 'boolean') {
+    errors.push(`${key} must be a boolean`);
+    return undefined;
+  }
+  return row[key] as boolean;
+}
+
+type EggDayEntry = NonNullable<NonNullable<BotApiPlayer['gains']>['eggDay']>[number];
+
+/**
+ * Validate one gains.eggDay entry. Every field is written to eggday_gains,
+ * so a bad value fails the whole row (errors are prefixed with the entry path).
+ */
+function parseEggDayEntry(raw: unknown, index: number, errors: string[]): EggDayEntry | null {
+  const path = `gains.eggDay[${index}]`;
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const entryErrors: string[] = [];
+  const entry: EggDayEntry = {
+    year: requiredNumber(raw, 'year', entryErrors),
+    eggDayStartSE: optionalNumber(raw, 'eggDayStartSE', entryErrors),
+    eggDayStartPE: optionalNumber(raw, 'eggDayStartPE', entryErrors),
+    eggDayStartEB: optionalNumber(raw, 'eggDayStartEB', entryErrors),
+    eggDayStartRole: optionalString(raw, 'eggDayStartRole', entryErrors),
+    eggDayStartPrestiges: optionalNumber(raw, 'eggDayStartPrestiges', entryErrors),
+    eggDayEndSE: optionalNumber(raw, 'eggDayEndSE', entryErrors),
+    eggDayEndPE: optionalNumber(raw, 'eggDayEndPE', entryErrors),
+    eggDayEndEB: optionalNumber(raw, 'eggDayEndEB', entryErrors),
+    eggDayEndRole: optionalString(raw, 'eggDayEndRole', entryErrors),
+    eggDayEndPrestiges: optionalNumber(raw, 'eggDayEndPrestiges', entryErrors),
+  };
+
+  errors.push(...entryErrors.map(error => `${path}.${error}`));
+  return entryErrors.length > 0 ? null : entry;
+}
+
+/**
+ * Validate one bot API row and normalize it to BotApiPlayer.
+ *
+ * @param raw - One element of the bot API response array
+ * @returns The parsed player, or null with the list of problems
+ */
+export function parseBotApiPlayer(raw: unknown): { player: BotApiPlayer | null; errors: string[] } {
+  if (!isObject(raw)) {
+    return { player: null, errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+
+  const updatedAt = requiredString(raw, 'updatedAt', errors);
+  if (updatedAt && isNaN(new Date(updatedAt).getTime())) {
+    errors.push('updatedAt must be an ISO timestamp');
+  }
+
+  let gains: BotApiPlayer['gains'] = undefined;
+  if (raw.gains !== undefined && raw.gains !== null) {
+    if (!isObject(raw.gains)) {
+      errors.push('gains must be an object');
+    } else {
+      const eggDay = raw.gains.eggDay;
+      if (eggDay !== undefined && eggDay !== null && !Array.isArray(eggDay)) {
+        errors.push('gains.eggDay must be an array');
+      }
+      gains = {
+        saturday: optionalNumber(raw.gains, 'saturday', errors),
+        eggDay: Array.isArray(eggDay)
+          ? eggDay
+              .map((entry, index) => parseEggDayEntry(entry, index, errors))
+              .filter((entry): entry is EggDayEntry => entry !== null)
+          : undefined,
+      };
+    }
+  }
+
+  const player: BotApiPlayer = {
+    ID: requiredString(raw, 'ID', errors),
+    IGN: requiredString(raw, 'IGN', errors),
+    discordName: requiredString(raw, 'discordName', errors),
+    displayName: optionalString(raw, 'displayName', errors),
+    farmerRole: optionalString(raw, 'farmerRole', errors),
+    grade: requiredString(raw, 'grade', errors),
+    active: optionalBoolean(raw, 'active', errors),
+    isGuest: optionalBoolean(raw, 'isGuest', errors),
+    EB: requiredNumber(raw, 'EB', errors),
+    SE: requiredNumber(raw, 'SE', errors),
+    PE: requiredNumber(raw, 'PE', errors),
+    TE: optionalNumber(raw, 'TE', errors),
+    numPrestiges: optionalNumber(raw, 'numPrestiges', errors),
+    updatedAt,
+    gains,
+    maxMysticalEggs: optionalNumber(raw, 'maxMysticalEggs', errors),
+  };
+
+  return errors.length > 0 ? { player: null, errors } : { player, errors };
+}
+
+/**
+ * Validate a full bot API response.
+ * Throws only if the response isn't an array; invalid rows are reported.
+ */
+export function parseBotApiResponse(raw: unknown): ParsePlayersResult {
+  if (!Array.isArray(raw)) {
+    throw new Error('Player data source did not return an array');
+  }
+
+  const players: BotApiPlayer[] = [];
+  const rowErrors: PlayerRowError[] = [];
+
+  raw.forEach((row, index) => {
+    const { player, errors } = parseBotApiPlayer(row);
+    if (player) {
+      players.push(player);
+    } else {
+      rowErrors.push({
+        index,
+        discordId: isObject(row) && row.ID != null ? String(row.ID) : null,
+        errors,
+        raw: row,
+      });
+    }
+  });
+
+  return { players, rowErrors };
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * HTTP source with a per-attempt timeout and exponential backoff.
+ * 4xx responses are not retried.
+ */
+export function createHttpDataSource(
+  url: string,
+  options: { timeoutMs?: number; retries?: number; backoffMs?: number } = {}
+): PlayerDataSource {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+
+  return {
+    name: 'bot_api',
+    async fetchRaw() {
+      let lastError: Error | null = null;
+
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        if (attempt > 0) {
+          const delay = backoffMs * 2 ** (attempt - 1);
+          console.log(`Retrying bot API in ${delay}ms (attempt ${attempt + 1}/${retries + 1})...`);
+          await sleep(delay);
+        }
+
+        try {
+          const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+          if (!response.ok) {
+            lastError = new Error(`Bot API returned ${response.status}: ${response.statusText}`);
+            if (response.status >= 400 && response.status < 500) break;
+            continue;
+          }
+          return await response.json();
+        } catch (error) {
+          lastError = error instanceof DOMException && error.name === 'TimeoutError'
+            ? new Error(`Bot API timed out after ${timeoutMs}ms`)
+            : error instanceof Error ? error : new Error(String(error));
+          console.error(`Bot API attempt ${attempt + 1} failed:`, lastError.message);
+        }
+      }
+
+      throw lastError ?? new Error('Bot API request failed');
+    },
+  };
+}
+
+/**
+ * Fixture source: reads a JSON file in the bot API format (local testing)
+ */
+export function createFixtureDataSource(path: string): PlayerDataSource {
+  return {
+    name: `fixture:${path}`,
+    async fetchRaw() {
+      const text = await Deno.readTextFile(path);
+      return JSON.parse(text);
+    },
+  };
+}
+
+/**
+ * Pick the source from the environment (see header)
+ */
+export function getPlayerDataSource(): PlayerDataSource {
+  const fixturePath = Deno.env.get('PLAYER_DATA_FIXTURE');
+  if (fixturePath) {
+    return createFixtureDataSource(fixturePath);
+  }
+
+  const botApiUrl = Deno.env.get('WONKY_ENDPOINT_URL');
+  if (!botApiUrl) {
+    throw new Error('Missing required environment variables');
+  }
+  return createHttpDataSource(botApiUrl);
+}
+
+/**
+ * Load and validate players from a source.
+ * Invalid rows are logged and returned in rowErrors.
+ *
+ * @param source - Defaults to getPlayerDataSource()
+ * @throws If the source fails or no valid players are returned
+ */
+export async function loadPlayers(source: PlayerDataSource = getPlayerDataSource()): Promise<LoadPlayersResult> {
+  console.log(`Fetching player data from ${source.name}...`);
+
+  const { players, rowErrors } = parseBotApiResponse(await source.fetchRaw());
+
+  if (rowErrors.length > 0) {
+    console.warn(`Skipped ${rowErrors.length} invalid player rows from ${source.name}`);
+    for (const rowError of rowErrors) {
+      console.warn(`  Row ${rowError.index} (${rowError.discordId ?? 'no ID'}): ${rowError.errors.join('; ')}`);
+    }
+  }
+
+  if (players.length === 0) {
+    throw new Error('No player data returned from bot API');
+  }
+
+  console.log(`Received ${players.length} players from ${source.name}`);
+  return { players, rowErrors, source: source.name };
+}
+
+// ============================================================================
+// Transforms
+// ============================================================================
+
+/**
+ * Bot API player -> leaderboard row (leaderboard_cache columns, also the
+ * base of a player_snapshots row)
+ */
+export function toLeaderboardEntry(player: BotApiPlayer): LeaderboardCacheEntry {
+  return {
+    discord_id: player.ID,
+    ign: player.IGN,
+    display_name: player.displayName || null,
+    discord_name: player.discordName,
+    eb: player.EB,
+    se: player.SE,
+    pe: player.PE,
+    te: player.TE || null,
+    num_prestiges: player.numPrestiges || null,
+    farmer_role: player.farmerRole || null,
+    grade: player.grade,
+    is_guest: player.isGuest || false,
+    active: player.active !== undefined ? player.active : true,
+    gains_saturday: player.gains?.saturday || null,
+    max_mystical_eggs: player.maxMysticalEggs || null,
+  };
+}
@@ -5,7 +5,7 @@
 // ============================================================================
 // Handles email sending via Resend API with HTML formatting
 
-import type { EmailData, EmailResult, SnapshotDecision } from './types.ts';
+import type { EmailData, EmailResult, SnapshotDecision, PlayerSyncStreak, SnapshotQualityReport } from './types.ts';
 import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
 
 /**
@@ -95,6 +95,62 @@ export async function logEmail(
   }
 }
 
+/**
+ * Anomaly rows listed in emails (the rest are summarized)
+ */
+const MAX_ANOMALY_ROWS = 25;
+
+function formatMetricValue(value: number): string {
+  return Math.abs(value) >= 1e6 ? value.toExponential(2) : String(value);
+}
+
+/**
+ * Data quality section (text), empty when there is nothing to report
+ */
+function formatQualityText(qualityCheck?: SnapshotQualityReport): string {
+  if (!qualityCheck || qualityCheck.anomalies.length === 0) return '';
+
+  const rows = qualityCheck.anomalies
+    .slice(0, MAX_ANOMALY_ROWS)
+    .map(a => `  - ${a.ign} (${a.discord_id}): ${a.metric.toUpperCase()} ${a.kind} ${(a.changeFraction * 100).toFixed(1)}% (${formatMetricValue(a.previous)} -> ${formatMetricValue(a.current)})`);
+  if (qualityCheck.anomalies.length > MAX_ANOMALY_ROWS) {
+    rows.push(`  ... and ${qualityCheck.anomalies.length - MAX_ANOMALY_ROWS} more`);
+  }
+
+  return `
+=== Data Quality (vs ${qualityCheck.previousSnapshotDate}) ===
+- Players with Anomalies: ${qualityCheck.anomalousPlayers} / ${qualityCheck.playersCompared} (${(qualityCheck.anomalousFraction * 100).toFixed(1)}%)
+${rows.join('\n')}
+`;
+}
+
+/**
+ * Data quality section (HTML), empty when there is nothing to report
+ */
+function formatQualityHtml(qualityCheck?: SnapshotQualityReport): string {
+  if (!qualityCheck || qualityCheck.anomalies.length === 0) return '';
+
+  const rows = qualityCheck.anomalies
+    .slice(0, MAX_ANOMALY_ROWS)
+    .map(a => `<tr><td>${a.ign}</td><td>${a.metric.toUpperCase()}</td><td>${formatMetricValue(a.previous)}</td><td>${formatMetricValue(a.current)}</td><td>${(a.changeFraction * 100).toFixed(1)}%</td></tr>`)
+    .join('');
+  const more = qualityCheck.anomalies.length > MAX_ANOMALY_ROWS
+    ? `<p>... and ${qualityCheck.anomalies.length - MAX_ANOMALY_ROWS} more</p>`
+    : '';
+
+  return `
+      <div class="section">
+        <h3>Data Quality (vs ${qualityCheck.previousSnapshotDate})</h3>
+        <div class="metric"><span class="metric-label">Players with Anomalies:</span><span class="metric-value">${qualityCheck.anomalousPlayers} / ${qualityCheck.playersCompared} (${(qualityCheck.anomalousFraction * 100).toFixed(1)}%)</span></div>
+        <table style="width: 100%; border-collapse: collapse; font-size: 13px; margin-top: 10px;">
+          <tr style="text-align: left;"><th>Player</th><th>Metric</th><th>Previous</th><th>Current</th><th>Change</th></tr>
+          ${rows}
+        </table>
+        ${more}
+      </div>
+      `;
+}
+
 /**
  * Create snapshot saved email (success case)
  */
@@ -105,10 +161,10 @@ export function createSnapshotSavedEmail(
   decision: SnapshotDecision,
   dbResults: {
     snapshotsInserted: number;
-    snapshotsErrors: number;
     eggdayInserted: number;
-    eggdayErrors: number;
-  }
+    quarantinedRows?: number;
+  },
+  qualityCheck?: SnapshotQualityReport
 ): EmailData {
   const subject = `✅ Snapshot saved - ${snapshotDate} - ${playerCount} players`;
   
@@ -132,9 +188,10 @@ New snapshot saved successfully.
 - Reason: ${decision.reason}
 
 === Database Results ===
-- Player Snapshots: ${dbResults.snapshotsInserted} inserted, ${dbResults.snapshotsErrors} errors
-- Eggday Gains: ${dbResults.eggdayInserted} inserted, ${dbResults.eggdayErrors} errors
-
+- Player Snapshots: ${dbResults.snapshotsInserted} inserted
+- Eggday Gains: ${dbResults.eggdayInserted} inserted
+- Quarantined Rows (invalid bot API data, not saved): ${dbResults.quarantinedRows || 0}
+${formatQualityText(qualityCheck)}
 View dashboard: https://majeggstics-dashboard.vercel.app/
 `.trim();
 
@@ -184,12 +241,11 @@ View dashboard: https://majeggstics-dashboard.vercel.app/
       <div class="section">
         <h3>Database Results</h3>
         <div class="metric"><span class="metric-label">Player Snapshots Inserted:</span><span class="metric-value">${dbResults.snapshotsInserted}</span></div>
-        <div class="metric"><span class="metric-label">Player Snapshots Errors:</span><span class="metric-value">${dbResults.snapshotsErrors}</span></div>
         <div class="metric"><span class="metric-label">Eggday Gains Inserted:</span><span class="metric-value">${dbResults.eggdayInserted}</span></div>
-        <div class="metric"><span class="metric-label">Eggday Gains Errors:</span><span class="metric-value">${dbResults.eggdayErrors}</span></div>
+        <div class="metric"><span class="metric-label">Quarantined Rows:</span><span class="metric-value">${dbResults.quarantinedRows || 0}</span></div>
       </div>
       
-      <div style="text-align: center;">
+      ${formatQualityHtml(qualityCheck)}<div style="text-align: center;">
         <a href="https://majeggstics-dashboard.vercel.app/" class="button">View Dashboard</a>
       </div>
     </div>
@@ -227,10 +283,10 @@ export function createPartialSyncEmail(
   decision: SnapshotDecision,
   dbResults: {
     snapshotsInserted: number;
-    snapshotsErrors: number;
     eggdayInserted: number;
-    eggdayErrors: number;
-  }
+    quarantinedRows?: number;
+  },
+  qualityCheck?: SnapshotQualityReport
 ): EmailData {
   const missingCount = decision.missingPlayers?.length || 0;
   const subject = `⚠️ Snapshot saved (partial sync) - ${decision.syncPercentage.toFixed(1)}% - ${missingCount} missing players`;
@@ -257,12 +313,13 @@ Snapshot saved after detecting partial synchronization.
 ${missingPlayersList || 'None'}
 
 💡 ACTION REQUIRED:
-Consider adding missing players to the excluded_players table if their save data is consistently problematic.
+Consider excluding missing players (Exclusions admin page) if their save data is consistently problematic.
 
 === Database Results ===
-- Player Snapshots: ${dbResults.snapshotsInserted} inserted, ${dbResults.snapshotsErrors} errors
-- Eggday Gains: ${dbResults.eggdayInserted} inserted, ${dbResults.eggdayErrors} errors
-
+- Player Snapshots: ${dbResults.snapshotsInserted} inserted
+- Eggday Gains: ${dbResults.eggdayInserted} inserted
+- Quarantined Rows (invalid bot API data, not saved): ${dbResults.quarantinedRows || 0}
+${formatQualityText(qualityCheck)}
 View dashboard: https://majeggstics-dashboard.vercel.app/
 `.trim();
 
@@ -318,16 +375,17 @@ View dashboard: https://majeggstics-dashboard.vercel.app/
       
       <div class="section">
         <h3>💡 Action Required</h3>
-        <p>Consider adding missing players to the <code>excluded_players</code> table if their save data is consistently problematic.</p>
+        <p>Consider excluding missing players (Exclusions admin page) if their save data is consistently problematic.</p>
       </div>
       
       <div class="section">
         <h3>Database Results</h3>
         <div class="metric"><span class="metric-label">Player Snapshots Inserted:</span><span class="metric-value">${dbResults.snapshotsInserted}</span></div>
         <div class="metric"><span class="metric-label">Eggday Gains Inserted:</span><span class="metric-value">${dbResults.eggdayInserted}</span></div>
+        <div class="metric"><span class="metric-label">Quarantined Rows:</span><span class="metric-value">${dbResults.quarantinedRows || 0}</span></div>
       </div>
       
-      <div style="text-align: center;">
+      ${formatQualityHtml(qualityCheck)}<div style="text-align: center;">
         <a href="https://majeggstics-dashboard.vercel.app/" class="button">View Dashboard</a>
       </div>
     </div>
@@ -467,3 +525,202 @@ View dashboard: https://majeggstics-dashboard.vercel.app/
     },
   };
 }
+
+/**
+ * Create sync failed email (import rolled back or blocked by quality checks)
+ */
+export function createSyncFailedEmail(
+  recipient: string,
+  snapshotDate: string,
+  playerCount: number,
+  errorMessage: string,
+  qualityCheck?: SnapshotQualityReport
+): EmailData {
+  const subject = `❌ Snapshot failed - ${snapshotDate} - nothing was saved`;
+  
+  const bodyText = `
+Saving the snapshot failed. No player snapshots, eggday gains or snapshot metadata were written for this date.
+
+=== Snapshot ===
+- Snapshot Date: ${snapshotDate}
+- Players: ${playerCount}
+
+=== Error ===
+${errorMessage}
+
+💡 ACTION REQUIRED:
+- Check the update-player-data logs for details
+- Re-run the snapshot from the admin Snapshots page once the cause is fixed
+${formatQualityText(qualityCheck)}
+View dashboard: https://majeggstics-dashboard.vercel.app/
+`.trim();
+
+  const bodyHtml = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #dc2626; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .content { background: #f9fafb; padding: 20px; border-radius: 0 0 8px 8px; }
+    .alert { background: #fee2e2; border: 2px solid #dc2626; padding: 15px; border-radius: 6px; margin: 15px 0; }
+    .section { background: white; padding: 15px; margin: 15px 0; border-radius: 6px; border-left: 4px solid #dc2626; }
+    .section h3 { margin-top: 0; color: #b91c1c; }
+    .metric { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e5e7eb; }
+    .metric:last-child { border-bottom: none; }
+    .metric-label { font-weight: 500; }
+    .metric-value { color: #b91c1c; font-weight: 600; }
+    .error { font-family: monospace; font-size: 13px; white-space: pre-wrap; word-break: break-word; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+    .button { display: inline-block; background: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 15px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>❌ Snapshot Failed</h1>
+    </div>
+    <div class="content">
+      <div class="alert">
+        <strong>❌ NOT SAVED:</strong> Saving the snapshot failed. No player snapshots, eggday gains or snapshot metadata were written for this date.
+      </div>
+      
+      <div class="section">
+        <h3>Snapshot</h3>
+        <div class="metric"><span class="metric-label">Snapshot Date:</span><span class="metric-value">${snapshotDate}</span></div>
+        <div class="metric"><span class="metric-label">Players:</span><span class="metric-value">${playerCount}</span></div>
+      </div>
+      
+      <div class="section">
+        <h3>Error</h3>
+        <div class="error">${errorMessage}</div>
+      </div>
+      
+      <div class="section">
+        <h3>💡 Action Required</h3>
+        <ul>
+          <li>Check the update-player-data logs for details</li>
+          <li>Re-run the snapshot from the admin Snapshots page once the cause is fixed</li>
+        </ul>
+      </div>
+      
+      ${formatQualityHtml(qualityCheck)}<div style="text-align: center;">
+        <a href="https://majeggstics-dashboard.vercel.app/" class="button">View Dashboard</a>
+      </div>
+    </div>
+    <div class="footer">
+      Majeggstics Dashboard - Automated Snapshot System
+    </div>
+  </div>
+</body>
+</html>
+`.trim();
+
+  return {
+    type: 'sync_failed',
+    recipient,
+    subject,
+    bodyText,
+    bodyHtml,
+    metadata: {
+      playerCount,
+      error: errorMessage,
+    },
+    relatedSnapshotDate: snapshotDate,
+  };
+}
+
+/**
+ * Create desync digest email (players out of sync for many decisions in a row)
+ */
+export function createDesyncDigestEmail(
+  recipient: string,
+  streaks: PlayerSyncStreak[],
+  threshold: number
+): EmailData {
+  const subject = `⚠️ ${streaks.length} player${streaks.length === 1 ? '' : 's'} chronically out of sync`;
+  
+  const playersList = streaks
+    .map(p => `  - ${p.ign} (${p.discord_id}): ${p.consecutive_misses} checks in a row since ${p.streak_started_at}, last updatedAt ${p.last_updated_at || 'unknown'}`)
+    .join('\n');
+
+  const bodyText = `
+These players have been outside the sync window for ${threshold}+ consecutive snapshot checks.
+Their save data may have stopped updating.
+
+=== Players ===
+${playersList}
+
+💡 ACTION:
+- Exclude them from the Exclusions admin page (one click), or
+- Wait for them to update if this is temporary
+
+View dashboard: https://majeggstics-dashboard.vercel.app/admin/excluded-players
+`.trim();
+
+  const playersHtml = streaks
+    .map(p => `<div class="metric"><span class="metric-label">${p.ign} (${p.discord_id})</span><span class="metric-value">${p.consecutive_misses} checks</span></div>`)
+    .join('');
+
+  const bodyHtml = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #f59e0b; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .content { background: #f9fafb; padding: 20px; border-radius: 0 0 8px 8px; }
+    .warning { background: #fef3c7; border: 2px solid #f59e0b; padding: 15px; border-radius: 6px; margin: 15px 0; }
+    .section { background: white; padding: 15px; margin: 15px 0; border-radius: 6px; border-left: 4px solid #f59e0b; }
+    .section h3 { margin-top: 0; color: #d97706; }
+    .metric { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e5e7eb; }
+    .metric:last-child { border-bottom: none; }
+    .metric-label { font-weight: 500; }
+    .metric-value { color: #d97706; font-weight: 600; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 14px; }
+    .button { display: inline-block; background: #f59e0b; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 15px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>⚠️ Chronic Desync Digest</h1>
+    </div>
+    <div class="content">
+      <div class="warning">
+        <strong>⚠️</strong> These players have been outside the sync window for ${threshold}+ consecutive snapshot checks. Their save data may have stopped updating.
+      </div>
+      
+      <div class="section">
+        <h3>Players (${streaks.length})</h3>
+        ${playersHtml}
+      </div>
+      
+      <div style="text-align: center;">
+        <a href="https://majeggstics-dashboard.vercel.app/admin/excluded-players" class="button">Review Exclusions</a>
+      </div>
+    </div>
+    <div class="footer">
+      Majeggstics Dashboard - Automated Snapshot System
+    </div>
+  </div>
+</body>
+</html>
+`.trim();
+
+  return {
+    type: 'desync_digest',
+    recipient,
+    subject,
+    bodyText,
+    bodyHtml,
+    metadata: {
+      threshold,
+      players: streaks.map(p => ({ discord_id: p.discord_id, consecutive_misses: p.consecutive_misses })),
+    },
+  };
+}
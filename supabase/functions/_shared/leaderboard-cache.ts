@@ -0,0 +1,81 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+// ============================================================================
+// Leaderboard Cache Reader / Writer
+// ============================================================================
+// Replaces leaderboard_cache atomically: rows are staged under a new
+// refresh_id and published in one transaction by publish_leaderboard_cache()
+// (see migration 019_leaderboard_cache_publish.sql). Readers load the whole
+// cache in one statement with get_leaderboard_cache(), so a response never
+// mixes two published versions.
+
+import type { LeaderboardCacheEntry } from './types.ts';
+
+const STAGING_BATCH_SIZE = 100;
+
+/**
+ * Stage and publish a new version of leaderboard_cache.
+ * On failure the previously published version stays in place.
+ *
+ * @param supabase - Service role client
+ * @param entries - Full leaderboard (one row per player)
+ * @returns refresh_id of the published version
+ * @throws If staging or publishing fails
+ */
+export async function publishLeaderboardCache(
+  supabase,
+  entries: LeaderboardCacheEntry[]
+): Promise<string> {
+  const refreshId = crypto.randomUUID();
+  console.log(`Staging leaderboard cache ${refreshId} with ${entries.length} players...`);
+
+  try {
+    for (let i = 0; i < entries.length; i += STAGING_BATCH_SIZE) {
+      const batch = entries
+        .slice(i, i + STAGING_BATCH_SIZE)
+        .map(entry => ({ ...entry, refresh_id: refreshId }));
+
+      const { error: insertError } = await supabase
+        .from('leaderboard_cache_staging')
+        .insert(batch);
+
+      if (insertError) {
+        throw new Error(`Failed to stage cache batch ${i / STAGING_BATCH_SIZE + 1}: ${insertError.message}`);
+      }
+    }
+
+    const { error: publishError } = await supabase.rpc('publish_leaderboard_cache', {
+      p_refresh_id: refreshId,
+      p_expected_count: entries.length,
+    });
+
+    if (publishError) {
+      throw new Error(`Failed to publish cache: ${publishError.message}`);
+    }
+  } catch (error) {
+    // Best effort; publish_leaderboard_cache also clears abandoned rows
+    await supabase.from('leaderboard_cache_staging').delete().eq('refresh_id', refreshId);
+    throw error;
+  }
+
+  console.log(`Leaderboard cache ${refreshId} published`);
+  return refreshId;
+}
+
+/**
+ * Read every leaderboard_cache row, ordered by discord_id.
+ * One statement, so the result is always a single published version
+ * (paging with .range() could straddle a publish).
+ *
+ * @param supabase - Service role client
+ * @throws If the read fails
+ */
+export async function readLeaderboardCache(supabase): Promise<LeaderboardCacheEntry[]> {
+  const { data, error } = await supabase.rpc('get_leaderboard_cache');
+
+  if (error) {
+    throw new Error(`Failed to fetch cached data: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -0,0 +1,26 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+// ============================================================================
+// Materialized Views
+// ============================================================================
+// weekly_statistics and unique_players_latest are derived from player_snapshots
+// and must be refreshed whenever snapshots are added, archived or restored.
+
+/**
+ * Refresh all materialized views via the refresh_materialized_views() RPC.
+ * Never throws - returns a status message for the function response.
+ *
+ * @param supabase - Service role client
+ */
+export async function refreshMaterializedViews(supabase): Promise<string> {
+  console.log('Refreshing materialized views...');
+  const { error: refreshError } = await supabase
+    .rpc('refresh_materialized_views');
+
+  if (refreshError) {
+    const errorMessage = 'Failed to refresh materialized views:\n' + refreshError
+    return errorMessage
+  } else {
+    return 'Successfully refreshed all materialized views'
+  }
+}
@@ -0,0 +1,87 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+// ============================================================================
+// Player Name History
+// ============================================================================
+// Records IGN, display name and Discord name changes in player_name_history
+// (see migration 010_player_name_history.sql). Each rename, including a
+// rename back to an earlier name, starts a new row.
+
+import type { BotApiPlayer } from './types.ts';
+
+type NameType = 'ign' | 'display_name' | 'discord_name';
+
+interface NameEntry {
+  discord_id: string;
+  name_type: NameType;
+  name: string;
+}
+
+/**
+ * Result of recording player names
+ */
+export interface NameHistoryResult {
+  namesSeen: number;
+  /** New history rows: first-seen names and name changes */
+  newNames: number;
+  error?: string;
+}
+
+/**
+ * Flatten bot API players into one entry per non-empty name
+ */
+function extractNames(players: BotApiPlayer[]): NameEntry[] {
+  const entries: NameEntry[] = [];
+
+  players.forEach(player => {
+    const names: Array<[NameType, string | null | undefined]> = [
+      ['ign', player.IGN],
+      ['display_name', player.displayName],
+      ['discord_name', player.discordName],
+    ];
+
+    names.forEach(([nameType, name]) => {
+      if (name && name.trim() !== '') {
+        entries.push({ discord_id: player.ID, name_type: nameType, name });
+      }
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Record the names each player currently has.
+ * A name that differs from the player's current one starts a new history row,
+ * an unchanged name has last_seen_at moved forward.
+ * Failures are logged and returned rather than thrown - name history is
+ * never allowed to block a cache refresh or snapshot save.
+ *
+ * @param supabase - Service role client
+ * @param players - Players from the bot API
+ * @param seenAt - When the names were observed (defaults to now)
+ */
+export async function recordPlayerNames(
+  supabase,
+  players: BotApiPlayer[],
+  seenAt: Date = new Date()
+): Promise<NameHistoryResult> {
+  const names = extractNames(players);
+
+  if (names.length === 0) {
+    return { namesSeen: 0, newNames: 0 };
+  }
+
+  const { data, error } = await supabase.rpc('record_player_names', {
+    p_names: names,
+    p_seen_at: seenAt.toISOString(),
+  });
+
+  if (error) {
+    console.error('Failed to record player names:', error.message);
+    return { namesSeen: names.length, newNames: 0, error: error.message };
+  }
+
+  console.log(`Recorded ${names.length} player names (${data ?? 0} new)`);
+  return { namesSeen: names.length, newNames: data ?? 0 };
+}
@@ -0,0 +1,52 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+// ============================================================================
+// Player Row Quarantine
+// ============================================================================
+// Stores bot API rows that failed validation (see data-source.ts) in
+// quarantined_player_rows (see migration 018_quarantined_player_rows.sql)
+
+import type { PlayerRowError } from './data-source.ts';
+
+/**
+ * Quarantine invalid rows from one load of the player data source.
+ * Failures are logged but never thrown - the valid rows must still be saved.
+ *
+ * @param supabase - Service role client
+ * @param rowErrors - Invalid rows from loadPlayers / parseBotApiResponse
+ * @param context - Where the rows were loaded (source, calling function, snapshot date)
+ * @returns Number of rows not quarantined before
+ */
+export async function quarantinePlayerRows(
+  supabase,
+  rowErrors: PlayerRowError[],
+  context: { source: string; caller: string; snapshotDate?: string | null }
+): Promise<number> {
+  if (rowErrors.length === 0) {
+    return 0;
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('quarantine_player_rows', {
+      p_rows: rowErrors.map(row => ({
+        discord_id: row.discordId,
+        errors: row.errors,
+        raw: row.raw ?? null,
+      })),
+      p_source: context.source,
+      p_context: context.caller,
+      p_snapshot_date: context.snapshotDate ?? null,
+    });
+
+    if (error) {
+      console.error('Failed to quarantine player rows:', error.message);
+      return 0;
+    }
+
+    console.log(`Quarantined ${rowErrors.length} invalid player rows (${data ?? 0} new)`);
+    return data ?? 0;
+  } catch (error) {
+    console.error('Failed to quarantine player rows:', error);
+    return 0;
+  }
+}
@@ -61,6 +61,60 @@ export const SNAPSHOT_CONFIG = {
    * Default: 2 hours (prevents indefinite pending state)
    */
   PENDING_SYNC_STALE_HOURS: 2,
+  
+  /**
+   * Archive retention: Days a deleted snapshot stays restorable before
+   * refresh-leaderboard-cron purges it permanently
+   * Default: 30 days
+   */
+  ARCHIVE_RETENTION_DAYS: 30,
+  
+  /**
+   * Exclusion candidates: Days of player_sync_misses history considered
+   * (older rows are deleted by refresh-leaderboard-cron)
+   * Default: 7 days
+   */
+  EXCLUSION_CANDIDATE_LOOKBACK_DAYS: 7,
+  
+  /**
+   * Exclusion candidates: Distinct days a player must have missed the sync
+   * window within the lookback period to be suggested for exclusion
+   * Default: 3 days
+   */
+  EXCLUSION_CANDIDATE_MIN_DAYS: 3,
+  
+  /**
+   * Chronic desync: Consecutive cron decisions a player must be outside the
+   * sync window before they are emailed in the desync digest and suggested
+   * for one-click exclusion
+   * Default: 8 decisions (2 hours at a 15 minute cron interval)
+   */
+  DESYNC_STREAK_THRESHOLD: 8,
+  
+  /**
+   * Data quality: A metric (eb, se, pe, te, num_prestiges) falling by more
+   * than this fraction since the player's previous snapshot is an anomaly.
+   * None of them can really go down, so this only absorbs rounding.
+   * Default: 0.1 (10%)
+   */
+  ANOMALY_MAX_DROP_FRACTION: 0.1,
+  
+  /**
+   * Data quality: A metric growing by more than this factor since the
+   * previous snapshot is an anomaly (only checked when the previous value is
+   * at least ANOMALY_JUMP_MIN_PREVIOUS, so new players ramping up don't count)
+   * Default: 10x
+   */
+  ANOMALY_MAX_JUMP_FACTOR: 10,
+  ANOMALY_JUMP_MIN_PREVIOUS: 10,
+  
+  /**
+   * Data quality: Block the save when more than this fraction of compared
+   * players have anomalies (likely a bot glitch). forceUpdate overrides it.
+   * Set to null to only report anomalies and never block.
+   * Default: 0.05 (5%)
+   */
+  ANOMALY_BLOCK_FRACTION: 0.05,
 } as const;
 
 /**
@@ -74,4 +128,5 @@ export const DERIVED_CONSTANTS = {
   ALERT_THRESHOLD_MS: SNAPSHOT_CONFIG.ALERT_THRESHOLD_DAYS * 24 * 60 * 60 * 1000,
   ALERT_COOLDOWN_MS: SNAPSHOT_CONFIG.ALERT_COOLDOWN_HOURS * 60 * 60 * 1000,
   PENDING_SYNC_STALE_MS: SNAPSHOT_CONFIG.PENDING_SYNC_STALE_HOURS * 60 * 60 * 1000,
+  EXCLUSION_CANDIDATE_LOOKBACK_MS: SNAPSHOT_CONFIG.EXCLUSION_CANDIDATE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
 } as const;
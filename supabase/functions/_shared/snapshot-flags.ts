@@ -0,0 +1,31 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+// ============================================================================
+// Snapshot Flags
+// ============================================================================
+// player_snapshot_flags compare each snapshot with the player's previous one,
+// so they must be recomputed whenever a snapshot is imported, archived or
+// restored (see migration 022_player_snapshot_flags.sql).
+
+/**
+ * Recompute player_snapshot_flags for a snapshot date and the snapshots
+ * that follow it, via the flag_snapshot_anomalies() RPC.
+ * Never throws - the flags only feed the admin charts.
+ *
+ * @param supabase - Service role client
+ * @param snapshotDate - Imported, archived or restored date (YYYY-MM-DD)
+ * @returns Number of flags written (0 on failure)
+ */
+export async function flagSnapshotAnomalies(supabase, snapshotDate: string): Promise<number> {
+  const { data, error } = await supabase.rpc('flag_snapshot_anomalies', {
+    p_snapshot_date: snapshotDate,
+  });
+
+  if (error) {
+    console.error('Failed to flag snapshot anomalies:', error.message);
+    return 0;
+  }
+
+  console.log(`Flagged ${data ?? 0} player snapshot anomalies`);
+  return data ?? 0;
+}
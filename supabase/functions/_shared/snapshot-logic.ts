@@ -307,3 +307,84 @@ export function createPendingSyncData(
     })) || []
   };
 }
+
+/**
+ * Find excluded players that are back inside the sync window, i.e. whose
+ * updatedAt is within 1 hour of the decision's oldest non-excluded update.
+ * Used to end exclusions flagged expire_on_sync.
+ * 
+ * @param players - Array of player data from bot API
+ * @param excludedIds - Discord IDs to check
+ * @param decision - Decision made for the same player data
+ * @returns Discord IDs of excluded players that are in sync again
+ */
+export function findResyncedPlayers(
+  players: BotApiPlayer[],
+  excludedIds: string[],
+  decision: SnapshotDecision
+): string[] {
+  if (!decision.lowestUpdatedAt || excludedIds.length === 0) {
+    return [];
+  }
+
+  const ONE_HOUR_MS = 3600000;
+  const lowest = decision.lowestUpdatedAt.getTime();
+
+  return players
+    .filter(player => excludedIds.includes(player.ID))
+    .filter(player => Math.abs(new Date(player.updatedAt).getTime() - lowest) < ONE_HOUR_MS)
+    .map(player => player.ID);
+}
+
+/**
+ * Find players outside the majority's sync window: the 1 hour window of
+ * updatedAt values holding the most non-guest, non-excluded players (the
+ * latest such window on a tie). Used to track chronic desync.
+ * 
+ * SnapshotDecision.missingPlayers is measured from the oldest updatedAt, so a
+ * single stuck player puts nearly everyone else outside the window. Measured
+ * against the majority, only the players that are actually behind (or ahead)
+ * are returned.
+ * 
+ * @param players - Array of player data from bot API
+ * @param excludedIds - Discord IDs to leave out
+ * @returns Players outside the majority window; timeDifferenceHours is the
+ *          distance from the start of the window
+ */
+export function findDesyncedPlayers(
+  players: BotApiPlayer[],
+  excludedIds: string[]
+): NonNullable<SnapshotDecision['missingPlayers']> {
+  const ONE_HOUR_MS = 3600000;
+  const tracked = players
+    .filter(player => !player.isGuest && !excludedIds.includes(player.ID))
+    .map(player => ({ player, time: new Date(player.updatedAt).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  if (tracked.length === 0) {
+    return [];
+  }
+
+  // Sliding window over the sorted timestamps
+  let windowStart = tracked[0].time;
+  let bestCount = 0;
+  let end = 0;
+  for (let start = 0; start < tracked.length; start++) {
+    while (end < tracked.length && tracked[end].time - tracked[start].time < ONE_HOUR_MS) {
+      end++;
+    }
+    if (end - start >= bestCount) {
+      bestCount = end - start;
+      windowStart = tracked[start].time;
+    }
+  }
+
+  return tracked
+    .filter(({ time }) => time < windowStart || time - windowStart >= ONE_HOUR_MS)
+    .map(({ player, time }) => ({
+      discord_id: player.ID,
+      ign: player.IGN,
+      updatedAt: player.updatedAt,
+      timeDifferenceHours: Math.abs(time - windowStart) / 3600000,
+    }));
+}
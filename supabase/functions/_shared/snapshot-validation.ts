@@ -0,0 +1,164 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+// ============================================================================
+// Snapshot Data Quality Checks
+// ============================================================================
+// Compares a snapshot about to be saved with each player's previous snapshot
+// and flags implausible drops/jumps (e.g. SE down 90% or EB at zero after a
+// bot glitch). update-player-data reports the anomalies in the snapshot email
+// and blocks the save when too many players are affected.
+//
+// THRESHOLDS: see ANOMALY_* in snapshot-config.ts
+
+import type { SnapshotAnomaly, SnapshotQualityReport } from './types.ts';
+import { SNAPSHOT_CONFIG } from './snapshot-config.ts';
+
+const CHECKED_METRICS: SnapshotAnomaly['metric'][] = ['eb', 'se', 'pe', 'te', 'num_prestiges'];
+
+interface SnapshotRow {
+  discord_id: string;
+  ign: string;
+  eb: number;
+  se: number;
+  pe: number;
+  te: number | null;
+  num_prestiges: number | null;
+}
+
+/**
+ * Load the latest snapshot saved before snapshotDate (one row per player)
+ */
+async function getPreviousSnapshot(
+  supabase,
+  snapshotDate: string
+): Promise<{ snapshotDate: string; rows: SnapshotRow[] } | null> {
+  const { data: meta, error: metaError } = await supabase
+    .from('snapshot_metadata')
+    .select('snapshot_date')
+    .lt('snapshot_date', snapshotDate)
+    .order('snapshot_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (metaError) {
+    throw new Error(`Failed to find previous snapshot: ${metaError.message}`);
+  }
+  if (!meta) {
+    return null;
+  }
+
+  const rows: SnapshotRow[] = [];
+  const pageSize = 1000;
+  const maxPages = 10;
+
+  for (let page = 0; page < maxPages; page++) {
+    const { data, error } = await supabase
+      .from('player_snapshots')
+      .select('discord_id, ign, eb, se, pe, te, num_prestiges')
+      .eq('snapshot_date', meta.snapshot_date)
+      .order('discord_id')
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to load previous snapshot: ${error.message}`);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return { snapshotDate: meta.snapshot_date, rows };
+}
+
+/**
+ * Compare one player's metrics with their previous snapshot
+ */
+export function findPlayerAnomalies(current: SnapshotRow, previous: SnapshotRow): SnapshotAnomaly[] {
+  const anomalies: SnapshotAnomaly[] = [];
+
+  for (const metric of CHECKED_METRICS) {
+    if (current[metric] == null || previous[metric] == null) continue;
+
+    const before = Number(previous[metric]);
+    const after = Number(current[metric]);
+    if (before <= 0) continue;
+
+    const changeFraction = (after - before) / before;
+    const isDrop = changeFraction < -SNAPSHOT_CONFIG.ANOMALY_MAX_DROP_FRACTION;
+    const isJump = before >= SNAPSHOT_CONFIG.ANOMALY_JUMP_MIN_PREVIOUS
+      && after > before * SNAPSHOT_CONFIG.ANOMALY_MAX_JUMP_FACTOR;
+
+    if (isDrop || isJump) {
+      anomalies.push({
+        discord_id: current.discord_id,
+        ign: current.ign,
+        metric,
+        kind: isDrop ? 'drop' : 'jump',
+        previous: before,
+        current: after,
+        changeFraction,
+      });
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Check a snapshot against the previous one.
+ * Players without a previous snapshot (new players) are not compared.
+ *
+ * @param supabase - Service role client
+ * @param snapshotDate - Date being saved (compared with the latest earlier snapshot)
+ * @param rows - player_snapshots rows about to be saved
+ */
+export async function checkSnapshotQuality(
+  supabase,
+  snapshotDate: string,
+  rows: SnapshotRow[]
+): Promise<SnapshotQualityReport> {
+  const blockFraction = SNAPSHOT_CONFIG.ANOMALY_BLOCK_FRACTION;
+  const previous = await getPreviousSnapshot(supabase, snapshotDate);
+
+  if (!previous) {
+    console.log('No previous snapshot, skipping quality checks');
+    return {
+      previousSnapshotDate: null,
+      playersCompared: 0,
+      anomalousPlayers: 0,
+      anomalousFraction: 0,
+      blockFraction,
+      blocked: false,
+      anomalies: [],
+    };
+  }
+
+  const previousById = new Map(previous.rows.map(row => [row.discord_id, row]));
+  const anomalies: SnapshotAnomaly[] = [];
+  let playersCompared = 0;
+
+  for (const row of rows) {
+    const previousRow = previousById.get(row.discord_id);
+    if (!previousRow) continue;
+    playersCompared++;
+    anomalies.push(...findPlayerAnomalies(row, previousRow));
+  }
+
+  const anomalousPlayers = new Set(anomalies.map(anomaly => anomaly.discord_id)).size;
+  const anomalousFraction = playersCompared > 0 ? anomalousPlayers / playersCompared : 0;
+  const blocked = blockFraction !== null && anomalousFraction > blockFraction;
+
+  console.log(
+    `Quality check vs ${previous.snapshotDate}: ${anomalousPlayers}/${playersCompared} players with anomalies` +
+    ` (${(anomalousFraction * 100).toFixed(1)}%)${blocked ? ' - BLOCKING SAVE' : ''}`
+  );
+
+  return {
+    previousSnapshotDate: previous.snapshotDate,
+    playersCompared,
+    anomalousPlayers,
+    anomalousFraction,
+    blockFraction,
+    blocked,
+    anomalies,
+  };
+}
@@ -57,6 +57,8 @@ export interface LeaderboardCacheEntry {
   grade: string;
   is_guest: boolean;
   active: boolean;
+  gains_saturday: number | null;
+  max_mystical_eggs: number | null;
 }
 
 /**
@@ -110,7 +112,7 @@ export interface PendingSyncData {
  * Email template data
  */
 export interface EmailData {
-  type: 'snapshot_saved' | 'partial_sync' | 'week_no_update' | 'sync_failed';
+  type: 'snapshot_saved' | 'partial_sync' | 'week_no_update' | 'sync_failed' | 'desync_digest';
   recipient: string;
   subject: string;
   bodyText: string;
@@ -119,6 +121,46 @@ export interface EmailData {
   relatedSnapshotDate?: string;
 }
 
+/**
+ * Player currently outside the sync window in consecutive decisions
+ * (player_sync_streaks table)
+ */
+export interface PlayerSyncStreak {
+  discord_id: string;
+  ign: string;
+  consecutive_misses: number;
+  streak_started_at: string;
+  last_missed_at: string;
+  last_updated_at: string | null;
+  digest_sent_at: string | null;
+}
+
+/**
+ * Implausible change in one metric since the player's previous snapshot
+ */
+export interface SnapshotAnomaly {
+  discord_id: string;
+  ign: string;
+  metric: 'eb' | 'se' | 'pe' | 'te' | 'num_prestiges';
+  kind: 'drop' | 'jump';
+  previous: number;
+  current: number;
+  changeFraction: number; // (current - previous) / previous, e.g. -0.9
+}
+
+/**
+ * Result of comparing a snapshot to the previous one before saving
+ */
+export interface SnapshotQualityReport {
+  previousSnapshotDate: string | null; // null = first snapshot, nothing compared
+  playersCompared: number;
+  anomalousPlayers: number;
+  anomalousFraction: number; // anomalousPlayers / playersCompared
+  blockFraction: number | null;
+  blocked: boolean;
+  anomalies: SnapshotAnomaly[];
+}
+
 /**
  * Email sending result
  */
@@ -155,12 +197,14 @@ export interface UpdatePlayerDataRequest {
   players?: BotApiPlayer[];
   snapshotDate?: string;
   
-  // Force update flag (for dry-run testing)
+  // Force update flag (for dry-run testing); also saves despite failed quality checks
   forceUpdate?: boolean;
   dryRun?: boolean;
   
   // Email options
   sendEmail?: boolean;
+  // Invalid rows the caller already quarantined from the same load (internal call)
+  quarantinedRows?: number;
   emailContext?: {
     syncPercentage: number;
     missingPlayers?: Array<{
@@ -180,15 +224,15 @@ export interface UpdatePlayerDataResponse {
   snapshotDate: string;
   playerCount: number;
   dryRun?: boolean;
+  // All-or-nothing import (import_snapshot RPC): a failed import is an error response
   snapshots: {
     inserted: number;
-    errors: number;
   };
   eggdayGains: {
     inserted: number;
-    errors: number;
   };
-  errors: string[];
+  quarantinedRows: number; // invalid bot API rows left out of this snapshot
+  qualityCheck: SnapshotQualityReport;
   refreshMaterializedViewsResponse: string;
   emailSent?: boolean;
   emailError?: string;
@@ -3,6 +3,10 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { verifyJWT, isAdmin } from '../_shared/auth.ts';
+import { writeAuditLog } from '../_shared/audit-log.ts';
+import { refreshMaterializedViews } from '../_shared/materialized-views.ts';
+import { flagSnapshotAnomalies } from '../_shared/snapshot-flags.ts';
+import { SNAPSHOT_CONFIG } from '../_shared/snapshot-config.ts';
 
 Deno.serve(async (req)=>{
   // Handle CORS preflight
@@ -79,37 +83,59 @@ Deno.serve(async (req)=>{
     }
     console.log(`User ${authenticatedUser} (via ${authMethod}) deleting snapshot for date: ${snapshotDate}`);
     
-    // Delete from player_snapshots
-    const { data: _deletedSnapshots, error: snapshotError, count: snapshotCount } = await supabase.from('player_snapshots').delete({
-      count: 'exact'
-    }).eq('snapshot_date', snapshotDate);
-    if (snapshotError) {
-      throw new Error(`Failed to delete player_snapshots: ${snapshotError.message}`);
+    // Move player_snapshots + snapshot_metadata into the archive tables
+    // (restorable via restore-snapshot until purge_after)
+    const { data: archivedCount, error: archiveError } = await supabase.rpc('archive_snapshot', {
+      p_snapshot_date: snapshotDate,
+      p_archived_by: authenticatedUser,
+      p_retention_days: SNAPSHOT_CONFIG.ARCHIVE_RETENTION_DAYS,
+    });
+    if (archiveError) {
+      await writeAuditLog(supabase, {
+        action: 'delete_snapshot',
+        performedBy: authenticatedUser,
+        authMethod: authMethod,
+        parameters: { snapshot_date: snapshotDate },
+        result: { error: archiveError.message },
+        success: false,
+      });
+      throw new Error(`Failed to archive snapshot: ${archiveError.message}`);
     }
-    // Delete from snapshot_metadata
-    const { error: metaError } = await supabase.from('snapshot_metadata').delete().eq('snapshot_date', snapshotDate);
-    if (metaError) {
-      console.warn(`Failed to delete snapshot_metadata: ${metaError.message}`);
+    
+    const purgeAfter = new Date(Date.now() + SNAPSHOT_CONFIG.ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    
+    // weekly_statistics etc. still include the archived rows until refreshed
+    const refreshMaterializedViewsResponse = archivedCount > 0
+      ? await refreshMaterializedViews(supabase)
+      : 'Skipped (nothing archived)';
+    
+    // Drop the archived date's flags and re-compare the snapshots after it
+    if (archivedCount > 0) {
+      await flagSnapshotAnomalies(supabase, snapshotDate);
     }
     
-    // Log the deletion for audit trail
-    const auditLog = {
+    // Record the deletion in admin_audit_log
+    await writeAuditLog(supabase, {
       action: 'delete_snapshot',
-      snapshot_date: snapshotDate,
-      deleted_count: snapshotCount || 0,
-      performed_by: authenticatedUser,
-      auth_method: authMethod,
-      timestamp: new Date().toISOString(),
-    };
-    
-    console.log('Audit log:', JSON.stringify(auditLog));
+      performedBy: authenticatedUser,
+      authMethod: authMethod,
+      parameters: { snapshot_date: snapshotDate },
+      result: {
+        archived_count: archivedCount || 0,
+        purge_after: purgeAfter,
+        materialized_views: refreshMaterializedViewsResponse,
+      },
+    });
     
     const response = {
       success: true,
       snapshotDate,
-      deletedRecords: snapshotCount || 0,
-      message: `Deleted ${snapshotCount || 0} player snapshots for ${snapshotDate}`,
+      deletedRecords: archivedCount || 0,
+      archived: (archivedCount || 0) > 0,
+      purgeAfter,
+      message: `Archived ${archivedCount || 0} player snapshots for ${snapshotDate} (restorable until ${purgeAfter})`,
       performedBy: authenticatedUser,
+      refreshMaterializedViewsResponse,
     };
     console.log('Delete complete:', response);
     return new Response(JSON.stringify(response), {
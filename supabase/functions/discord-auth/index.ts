@@ -24,10 +24,15 @@
  * - Users CANNOT modify the JWT because they don't have the signing key
  * - Any modification invalidates the cryptographic signature
  * - Supabase rejects requests with invalid signatures
+ * 
+ * PROFILES:
+ * - On login the user's Discord avatar hash is stored in player_profiles
+ *   (used by player search). Requires SUPABASE_SERVICE_ROLE_KEY; skipped if unset.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { create, getNumericDate } from 'https://deno.land/x/djwt@v2.8/mod.ts';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
 
 // CORS headers for browser requests
 const corsHeaders = {
@@ -275,6 +280,35 @@ async function createSupabaseJWT(
   return { token, expiresAt };
 }
 
+/**
+ * Store the user's Discord avatar in player_profiles.
+ * Non-fatal: login must never fail because the profile couldn't be saved.
+ */
+async function storeDiscordProfile(discordUser: DiscordUser, supabaseUrl: string): Promise<void> {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceRoleKey) {
+    console.warn('SUPABASE_SERVICE_ROLE_KEY not set, skipping profile update');
+    return;
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const { error } = await supabase
+      .from('player_profiles')
+      .upsert({
+        discord_id: discordUser.id,
+        avatar: discordUser.avatar,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.error('Failed to store Discord profile:', error.message);
+    }
+  } catch (error) {
+    console.error('Failed to store Discord profile:', error);
+  }
+}
+
 /**
  * Validate required environment variables
  */
@@ -407,6 +441,8 @@ serve(async (req: Request) => {
 
     console.log('User has access level:', accessLevel);
 
+    await storeDiscordProfile(discordUser, supabaseUrl);
+
     // Step 4: Create a signed JWT for Supabase
     // This JWT is signed with JWT_SECRET and includes the proper iss claim
     const { token, expiresAt } = await createSupabaseJWT(discordUser, accessLevel, jwtSecret, supabaseUrl);
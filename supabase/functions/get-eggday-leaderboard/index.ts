@@ -0,0 +1,287 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+/**
+ * Get Egg Day Leaderboard Edge Function
+ *
+ * Returns every player's Egg Day start/end values for a single year, joined
+ * with their current IGN and Discord name, for the community Egg Day recap.
+ *
+ * QUERY PARAMETERS:
+ * =================
+ * - year (optional): Egg Day year to return. Defaults to the most recent year.
+ *
+ * SECURITY:
+ * =========
+ * - Requires valid JWT (same as discord-auth)
+ * - Admins see start/end prestiges, regular users get null for those fields
+ * - Uses service role key to bypass RLS on eggday_gains
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { verifyJWT, isAdmin } from '../_shared/auth.ts';
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+interface EggdayLeaderboardEntry {
+  discord_id: string;
+  year: number;
+  ign: string | null;
+  discord_name: string | null;
+  start_se: number | null;
+  start_pe: number | null;
+  start_eb: number | null;
+  start_role: string | null;
+  start_prestiges: number | null;
+  end_se: number | null;
+  end_pe: number | null;
+  end_eb: number | null;
+  end_role: string | null;
+  end_prestiges: number | null;
+}
+
+/**
+ * Get the years that have Egg Day data (newest first).
+ * Walks down one distinct year per query so only present years are returned,
+ * without pulling every eggday_gains row.
+ */
+async function getAvailableYears(supabase): Promise<number[]> {
+  const years: number[] = [];
+
+  while (true) {
+    let query = supabase.from('eggday_gains').select('year').order('year', { ascending: false }).limit(1);
+    if (years.length > 0) {
+      query = query.lt('year', years[years.length - 1]);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch Egg Day years: ${error.message}`);
+    }
+
+    if (!data?.length) {
+      return years;
+    }
+
+    years.push(data[0].year);
+  }
+}
+
+/**
+ * Get all eggday_gains rows for a year (handles pagination)
+ */
+async function getEggdayGains(supabase, year: number) {
+  const allRows = [];
+  const PAGE_SIZE = 1000;
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('eggday_gains')
+      .select('*')
+      .eq('year', year)
+      .order('discord_id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch Egg Day gains: ${error.message}`);
+    }
+
+    if (data && data.length > 0) {
+      allRows.push(...data);
+      offset += PAGE_SIZE;
+      hasMore = data.length === PAGE_SIZE;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  return allRows;
+}
+
+/**
+ * Get IGN and Discord name for every player (handles pagination)
+ */
+async function getPlayerNames(supabase): Promise<Map<string, { ign: string | null; discord_name: string | null }>> {
+  const names = new Map();
+  const PAGE_SIZE = 1000;
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('unique_players_latest')
+      .select('discord_id, ign, discord_name')
+      .order('discord_id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch player names: ${error.message}`);
+    }
+
+    if (data && data.length > 0) {
+      data.forEach((player) => {
+        names.set(player.discord_id, { ign: player.ign, discord_name: player.discord_name });
+      });
+      offset += PAGE_SIZE;
+      hasMore = data.length === PAGE_SIZE;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Filter data based on access level
+ * - Admins see everything
+ * - Regular users don't see prestiges
+ */
+function filterByAccessLevel(
+  entries: EggdayLeaderboardEntry[],
+  accessLevel: 'user' | 'admin'
+): EggdayLeaderboardEntry[] {
+  if (accessLevel === 'admin') {
+    return entries;
+  }
+
+  return entries.map(entry => ({
+    ...entry,
+    start_prestiges: null,
+    end_prestiges: null,
+  }));
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only accept GET requests
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    // Validate environment variables
+    const jwtSecret = Deno.env.get('JWT_SECRET');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!jwtSecret || !supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Verify JWT
+    const authHeader = req.headers.get('Authorization');
+    const jwtPayload = await verifyJWT(authHeader, jwtSecret);
+
+    if (!jwtPayload) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Invalid or missing JWT' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Check JWT expiration
+    if (jwtPayload.exp && jwtPayload.exp < Date.now() / 1000) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: JWT expired' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const accessLevel = isAdmin(jwtPayload) ? 'admin' : 'user';
+
+    // Parse year parameter
+    const url = new URL(req.url);
+    const yearParam = url.searchParams.get('year');
+    let requestedYear: number | null = null;
+
+    if (yearParam) {
+      requestedYear = parseInt(yearParam, 10);
+      if (isNaN(requestedYear)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid year parameter' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
+    // Create Supabase client with service role (bypasses RLS)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const availableYears = await getAvailableYears(supabase);
+    const year = requestedYear ?? availableYears[0] ?? null;
+
+    if (year === null) {
+      return new Response(
+        JSON.stringify({ year: null, availableYears, entries: [] }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    console.log(`Fetching Egg Day leaderboard for ${year} (${accessLevel})`);
+
+    const [gains, names] = await Promise.all([
+      getEggdayGains(supabase, year),
+      getPlayerNames(supabase),
+    ]);
+
+    const entries: EggdayLeaderboardEntry[] = gains.map((row) => ({
+      ...row,
+      ign: names.get(row.discord_id)?.ign ?? null,
+      discord_name: names.get(row.discord_id)?.discord_name ?? null,
+    }));
+
+    const response = {
+      year,
+      availableYears,
+      entries: filterByAccessLevel(entries, accessLevel),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Get Egg Day leaderboard error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to get Egg Day leaderboard', details: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
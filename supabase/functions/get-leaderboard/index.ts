@@ -8,8 +8,40 @@
  * CACHING STRATEGY:
  * =================
  * 1. Check if cached data exists and is fresh (< 15 minutes old)
- * 2. If fresh: return cached data from database
- * 3. If stale: fetch from BOT_API, update cache, return fresh data
+ * 2. If fresh: return cached data from database (one get_leaderboard_cache()
+ *    read, so the response is a single published version)
+ * 3. If stale: take the refresh lease (single-flight), fetch from the player
+ *    data source (_shared/data-source.ts), publish a new cache version
+ *    (_shared/leaderboard-cache.ts), return fresh data
+ *    (readers never see a partially written cache)
+ * 4. If stale but another request holds the lease: return the stale cache
+ *    with `refreshing: true` instead of calling the bot API again
+ * 5. If the refresh fails: the lease is kept for a backoff period, so during
+ *    a bot API outage requests serve the cache as `refresh_failed` and only
+ *    one retries per backoff
+ * 
+ * Live responses include `cacheAgeSeconds` and `refreshStatus`
+ * (fresh | refreshed | refreshing | refresh_failed) for the Leaderboards banner.
+ * 
+ * HISTORICAL SNAPSHOTS:
+ * =====================
+ * - Pass ?snapshot_date=YYYY-MM-DD to get the leaderboard as of a saved snapshot
+ * - Reads player_snapshots for that date instead of the live cache
+ * - The cache is not checked or refreshed for these requests
+ * 
+ * SORTING, PAGINATION AND FIELDS:
+ * ===============================
+ * Without any of these parameters every player is returned unsorted (default shape).
+ * When at least one is given, players are ranked server-side and each row gets a `rank`:
+ * - sort: eb | se | pe | te | gains_saturday | max_mystical_eggs | num_prestiges (admin only), default eb
+ * - direction: desc | asc, default desc. `rank` always counts from the highest value
+ *   (rank 1 is the top player in both directions); ties are ordered by discord_id
+ * - offset, limit: page window over the ranked rows (limit max 1000)
+ * - active_only: true to drop inactive players before ranking
+ * - grade: comma-separated grades to rank within (e.g. aaa,aa)
+ * - fields: comma-separated player columns to return (discord_id and rank are always included)
+ * Players with no value for the sort column are left out. The response also has
+ * `totalCount` (players matching the filters), `offset`, `limit`, `sort` and `direction`.
  * 
  * SECURITY:
  * =========
@@ -22,6 +54,9 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { verify } from 'https://deno.land/x/djwt@v2.8/mod.ts';
+import { loadPlayers, toLeaderboardEntry } from '../_shared/data-source.ts';
+import { quarantinePlayerRows } from '../_shared/quarantine.ts';
+import { publishLeaderboardCache, readLeaderboardCache } from '../_shared/leaderboard-cache.ts';
 
 // CORS headers for browser requests
 const corsHeaders = {
@@ -33,6 +68,23 @@ const corsHeaders = {
 // Cache duration in minutes
 const CACHE_DURATION_MINUTES = 15;
 
+// Longest a refresh may hold the lease (bot API retries included)
+const REFRESH_LEASE_SECONDS = 120;
+
+// After a failed refresh, nobody calls the bot API again for this long
+const REFRESH_FAILURE_BACKOFF_SECONDS = 120;
+
+const SORT_COLUMNS = ['eb', 'se', 'pe', 'te', 'gains_saturday', 'max_mystical_eggs', 'num_prestiges'] as const;
+
+const PLAYER_FIELDS = [
+  'discord_id', 'ign', 'display_name', 'discord_name', 'eb', 'se', 'pe', 'te', 'num_prestiges',
+  'farmer_role', 'grade', 'is_guest', 'active', 'gains_saturday', 'max_mystical_eggs',
+] as const;
+
+const MAX_LIMIT = 1000;
+
+const LIST_PARAMS = ['sort', 'direction', 'offset', 'limit', 'active_only', 'grade', 'fields'];
+
 interface LeaderboardPlayer {
   discord_id: string;
   ign: string;
@@ -47,13 +99,28 @@ interface LeaderboardPlayer {
   grade: string;
   is_guest: boolean;
   active: boolean;
+  gains_saturday: number | null;
+  max_mystical_eggs: number | null;
+}
+
+interface ListOptions {
+  sort: typeof SORT_COLUMNS[number];
+  direction: 'asc' | 'desc';
+  offset: number;
+  limit: number;
+  activeOnly: boolean;
+  grades: string[];
+  fields: string[] | null;
 }
 
 interface CacheMetadata {
   id: number;
   last_updated: string;
+  last_refresh_failed_at: string | null;
 }
 
+type RefreshStatus = 'fresh' | 'refreshed' | 'refreshing' | 'refresh_failed';
+
 interface JWTPayload {
   sub: string;
   discord_id: string;
@@ -107,97 +174,19 @@ function isCacheFresh(lastUpdated: string | null): boolean {
 }
 
 /**
- * Fetch fresh data from the bot API
+ * Fetch fresh data from the player data source (bot API or fixture).
+ * Invalid rows are quarantined, not cached.
  */
-async function fetchFromBotAPI(botApiUrl: string): Promise<LeaderboardPlayer[]> {
-  console.log('Fetching fresh data from bot API...');
-
-  const response = await fetch(botApiUrl);
-  if (!response.ok) {
-    throw new Error(`Bot API returned ${response.status}: ${response.statusText}`);
-  }
-
-  const players = await response.json();
-
-  if (!Array.isArray(players) || players.length === 0) {
-    throw new Error('No player data returned from bot API');
-  }
-
-  console.log(`Received ${players.length} players from bot API`);
-
-  // Transform to our format
-  return players.map((player) => ({
-    discord_id: player.ID,
-    ign: player.IGN,
-    display_name: player.displayName || null,
-    discord_name: player.discordName,
-    eb: player.EB,
-    se: player.SE,
-    pe: player.PE,
-    te: player.TE || null,
-    num_prestiges: player.numPrestiges || null,
-    farmer_role: player.farmerRole || null,
-    grade: player.grade,
-    is_guest: player.isGuest || false,
-    active: player.active !== undefined ? player.active : true,
-  }));
-}
-
-/**
- * Update the cache in the database
- */
-async function updateCache(
-  supabase,
-  players: LeaderboardPlayer[]
-): Promise<void> {
-  console.log(`Updating cache with ${players.length} players...`);
-
-  // Clear existing cache and insert new data
-  // Using a transaction-like approach: delete then insert
-  const { error: deleteError } = await supabase
-    .from('leaderboard_cache')
-    .delete()
-    .neq('discord_id', ''); // Delete all rows
-
-  if (deleteError) {
-    console.error('Failed to clear cache:', deleteError);
-    throw new Error(`Failed to clear cache: ${deleteError.message}`);
-  }
-
-  // Insert new data in batches
-  const BATCH_SIZE = 100;
-  for (let i = 0; i < players.length; i += BATCH_SIZE) {
-    const batch = players.slice(i, i + BATCH_SIZE);
-    const { error: insertError } = await supabase
-      .from('leaderboard_cache')
-      .insert(batch);
-
-    if (insertError) {
-      console.error(`Failed to insert batch ${i / BATCH_SIZE + 1}:`, insertError);
-      throw new Error(`Failed to insert cache data: ${insertError.message}`);
-    }
-  }
-
-  // Update the cache metadata
-  const { error: metaError } = await supabase
-    .from('leaderboard_cache_metadata')
-    .upsert({
-      id: 1, // Single row table
-      last_updated: new Date().toISOString(),
-    });
-
-  if (metaError) {
-    console.error('Failed to update cache metadata:', metaError);
-    // Non-fatal, cache data is still valid
-  }
-
-  console.log('Cache updated successfully');
+async function fetchFromBotAPI(supabase): Promise<LeaderboardPlayer[]> {
+  const { players, rowErrors, source } = await loadPlayers();
+  await quarantinePlayerRows(supabase, rowErrors, { source, caller: 'get-leaderboard' });
+  return players.map(toLeaderboardEntry);
 }
 
 /**
- * Get cached data from the database (handles pagination)
+ * Get player_snapshots rows for a single snapshot date (handles pagination)
  */
-async function getCachedData(supabase): Promise<LeaderboardPlayer[]> {
+async function getSnapshotData(supabase, snapshotDate: string): Promise<LeaderboardPlayer[]> {
   const allPlayers: LeaderboardPlayer[] = [];
   const PAGE_SIZE = 1000;
   let offset = 0;
@@ -205,12 +194,14 @@ async function getCachedData(supabase): Promise<LeaderboardPlayer[]> {
 
   while (hasMore) {
     const { data, error } = await supabase
-      .from('leaderboard_cache')
-      .select('*')
+      .from('player_snapshots')
+      .select('discord_id, ign, display_name, discord_name, eb, se, pe, te, num_prestiges, farmer_role, grade, is_guest, active, gains_saturday, max_mystical_eggs')
+      .eq('snapshot_date', snapshotDate)
+      .order('discord_id')
       .range(offset, offset + PAGE_SIZE - 1);
 
     if (error) {
-      throw new Error(`Failed to fetch cached data: ${error.message}`);
+      throw new Error(`Failed to fetch snapshot data: ${error.message}`);
     }
 
     if (data && data.length > 0) {
@@ -225,6 +216,54 @@ async function getCachedData(supabase): Promise<LeaderboardPlayer[]> {
   return allPlayers;
 }
 
+/**
+ * Try to become the single request that refreshes a stale cache.
+ * Returns the lease ID, or null if another request is already refreshing
+ * (or just finished or failed), or if the lease can't be checked.
+ */
+async function acquireRefreshLease(supabase): Promise<string | null> {
+  const leaseId = crypto.randomUUID();
+  const staleBefore = new Date(Date.now() - CACHE_DURATION_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase.rpc('acquire_leaderboard_refresh_lease', {
+    p_lease_id: leaseId,
+    p_lease_seconds: REFRESH_LEASE_SECONDS,
+    p_stale_before: staleBefore,
+  });
+
+  if (error) {
+    // Serve the cache rather than let every request hit the bot API
+    console.error('Failed to acquire refresh lease:', error.message);
+    return null;
+  }
+
+  return data ? leaseId : null;
+}
+
+/**
+ * Release the refresh lease after publishing (non-fatal, it expires by itself)
+ */
+async function releaseRefreshLease(supabase, leaseId: string): Promise<void> {
+  const { error } = await supabase.rpc('release_leaderboard_refresh_lease', { p_lease_id: leaseId });
+  if (error) {
+    console.error('Failed to release refresh lease:', error.message);
+  }
+}
+
+/**
+ * Record a failed refresh and keep the lease for the backoff period, so
+ * other requests serve the cache instead of retrying the bot API (non-fatal)
+ */
+async function failRefreshLease(supabase, leaseId: string): Promise<void> {
+  const { error } = await supabase.rpc('fail_leaderboard_refresh_lease', {
+    p_lease_id: leaseId,
+    p_backoff_seconds: REFRESH_FAILURE_BACKOFF_SECONDS,
+  });
+  if (error) {
+    console.error('Failed to record refresh failure:', error.message);
+  }
+}
+
 /**
  * Get cache metadata (last update time)
  */
@@ -263,6 +302,111 @@ function filterByAccessLevel(
   }));
 }
 
+/**
+ * Read sort/pagination/field parameters.
+ * Returns null when none were given (the caller keeps the default response shape),
+ * or an error message when a parameter is invalid.
+ */
+function parseListOptions(
+  params: URLSearchParams,
+  accessLevel: 'user' | 'admin'
+): { options: ListOptions | null; error?: string } {
+  if (!LIST_PARAMS.some(param => params.has(param))) {
+    return { options: null };
+  }
+
+  const sort = params.get('sort') || 'eb';
+  if (!SORT_COLUMNS.includes(sort) || (sort === 'num_prestiges' && accessLevel !== 'admin')) {
+    return { options: null, error: `Invalid sort parameter: ${sort}` };
+  }
+
+  const direction = params.get('direction') || 'desc';
+  if (direction !== 'asc' && direction !== 'desc') {
+    return { options: null, error: 'Invalid direction parameter (expected asc or desc)' };
+  }
+
+  const offset = Number(params.get('offset') ?? 0);
+  const limit = Number(params.get('limit') ?? MAX_LIMIT);
+  if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { options: null, error: `Invalid offset/limit parameters (limit must be 1-${MAX_LIMIT})` };
+  }
+
+  const grades = (params.get('grade') || '')
+    .split(',')
+    .map(grade => grade.trim().toLowerCase())
+    .filter(Boolean);
+
+  let fields: string[] | null = null;
+  if (params.get('fields')) {
+    fields = params.get('fields').split(',').map(field => field.trim()).filter(Boolean);
+    const unknown = fields.filter(field => !PLAYER_FIELDS.includes(field));
+    if (unknown.length > 0) {
+      return { options: null, error: `Unknown fields: ${unknown.join(', ')}` };
+    }
+  }
+
+  return {
+    options: {
+      sort,
+      direction,
+      offset,
+      limit,
+      activeOnly: params.get('active_only') === 'true',
+      grades,
+      fields,
+    },
+  };
+}
+
+/**
+ * Filter, rank, sort, page and project players for a list request.
+ * Ranks use competition ranking (ties share a rank, e.g. 1, 1, 3) with higher values ranked first,
+ * whatever the direction. Tied players are ordered by discord_id so pages are stable.
+ */
+function applyListOptions(players: LeaderboardPlayer[], options: ListOptions) {
+  const byDiscordId = (a: LeaderboardPlayer, b: LeaderboardPlayer) => a.discord_id.localeCompare(b.discord_id);
+
+  const ranked = players
+    .filter(player => !options.activeOnly || player.active)
+    .filter(player => options.grades.length === 0 || options.grades.includes(player.grade.toLowerCase()))
+    .filter(player => player[options.sort] != null)
+    .sort((a, b) => Number(b[options.sort]) - Number(a[options.sort]) || byDiscordId(a, b));
+
+  let previousValue: number | null = null;
+  let previousRank = 0;
+  const withRanks = ranked.map((player, index) => {
+    const value = Number(player[options.sort]);
+    const rank = value === previousValue ? previousRank : index + 1;
+    previousValue = value;
+    previousRank = rank;
+    return { ...player, rank };
+  });
+
+  if (options.direction === 'asc') {
+    withRanks.sort((a, b) => Number(a[options.sort]) - Number(b[options.sort]) || byDiscordId(a, b));
+  }
+
+  const page = withRanks.slice(options.offset, options.offset + options.limit);
+  const rows = options.fields
+    ? page.map(player => {
+        const row: Record<string, unknown> = { discord_id: player.discord_id, rank: player.rank };
+        options.fields.forEach(field => {
+          row[field] = player[field];
+        });
+        return row;
+      })
+    : page;
+
+  return {
+    players: rows,
+    totalCount: withRanks.length,
+    offset: options.offset,
+    limit: options.limit,
+    sort: options.sort,
+    direction: options.direction,
+  };
+}
+
 serve(async (req: Request) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -285,9 +429,8 @@ serve(async (req: Request) => {
     const jwtSecret = Deno.env.get('JWT_SECRET');
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-    const botApiUrl = Deno.env.get('WONKY_ENDPOINT_URL');
 
-    if (!jwtSecret || !supabaseUrl || !supabaseServiceKey || !botApiUrl) {
+    if (!jwtSecret || !supabaseUrl || !supabaseServiceKey) {
       throw new Error('Missing required environment variables');
     }
 
@@ -322,41 +465,114 @@ serve(async (req: Request) => {
     // Create Supabase client with service role (bypasses RLS)
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const url = new URL(req.url);
+    const { options: listOptions, error: listError } = parseListOptions(url.searchParams, accessLevel);
+
+    if (listError) {
+      return new Response(
+        JSON.stringify({ error: listError }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Historical leaderboard - serve a saved snapshot instead of the live cache
+    const snapshotDate = url.searchParams.get('snapshot_date');
+
+    if (snapshotDate) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(snapshotDate)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid snapshot_date parameter (expected YYYY-MM-DD)' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      console.log(`Returning snapshot leaderboard for ${snapshotDate}`);
+      const snapshotPlayers = filterByAccessLevel(await getSnapshotData(supabase, snapshotDate), accessLevel);
+      const list = listOptions ? applyListOptions(snapshotPlayers, listOptions) : { players: snapshotPlayers };
+
+      return new Response(
+        JSON.stringify({
+          ...list,
+          lastUpdated: snapshotDate,
+          playerCount: list.totalCount ?? list.players.length,
+          fromCache: true,
+          snapshotDate,
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     // Check cache freshness
     const cacheMetadata = await getCacheMetadata(supabase);
     const cacheFresh = isCacheFresh(cacheMetadata?.last_updated || null);
 
     let players: LeaderboardPlayer[];
+    let lastUpdated = cacheMetadata?.last_updated || null;
+    let refreshStatus: RefreshStatus = 'fresh';
 
     if (cacheFresh) {
       console.log('Cache is fresh, returning cached data');
-      players = await getCachedData(supabase);
+      players = await readLeaderboardCache(supabase);
     } else {
-      console.log('Cache is stale, fetching fresh data');
-      try {
-        players = await fetchFromBotAPI(botApiUrl);
-        await updateCache(supabase, players);
-      } catch (fetchError) {
-        // If fetch fails but we have cached data, return stale data
-        console.error('Failed to fetch fresh data:', fetchError);
-        const cachedPlayers = await getCachedData(supabase);
-        if (cachedPlayers.length > 0) {
-          console.log('Returning stale cached data due to fetch failure');
-          players = cachedPlayers;
-        } else {
-          throw fetchError;
+      const leaseId = await acquireRefreshLease(supabase);
+
+      if (leaseId) {
+        console.log('Cache is stale, fetching fresh data');
+        try {
+          players = await fetchFromBotAPI(supabase);
+          await publishLeaderboardCache(supabase, players);
+          await releaseRefreshLease(supabase, leaseId);
+          lastUpdated = new Date().toISOString();
+          refreshStatus = 'refreshed';
+        } catch (fetchError) {
+          // If fetch fails but we have cached data, return stale data
+          console.error('Failed to fetch fresh data:', fetchError);
+          await failRefreshLease(supabase, leaseId);
+          const cachedPlayers = await readLeaderboardCache(supabase);
+          if (cachedPlayers.length > 0) {
+            console.log('Returning stale cached data due to fetch failure');
+            players = cachedPlayers;
+            refreshStatus = 'refresh_failed';
+          } else {
+            throw fetchError;
+          }
         }
+      } else {
+        // Another request is refreshing, published since we read the metadata,
+        // or failed recently and holds the lease as a backoff
+        const currentMetadata = await getCacheMetadata(supabase);
+        lastUpdated = currentMetadata?.last_updated || lastUpdated;
+        const lastFailedAt = currentMetadata?.last_refresh_failed_at;
+        refreshStatus = isCacheFresh(lastUpdated)
+          ? 'fresh'
+          : lastFailedAt && (!lastUpdated || new Date(lastFailedAt) > new Date(lastUpdated)) ? 'refresh_failed' : 'refreshing';
+        console.log(`Cache refresh handled by another request (${refreshStatus}), returning cached data`);
+        players = await readLeaderboardCache(supabase);
       }
     }
 
     // Filter based on access level (hide num_prestiges for non-admins)
     const filteredPlayers = filterByAccessLevel(players, accessLevel);
+    const list = listOptions ? applyListOptions(filteredPlayers, listOptions) : { players: filteredPlayers };
 
     const response = {
-      players: filteredPlayers,
-      lastUpdated: cacheMetadata?.last_updated || new Date().toISOString(),
-      playerCount: filteredPlayers.length,
-      fromCache: cacheFresh,
+      ...list,
+      lastUpdated: lastUpdated || new Date().toISOString(),
+      playerCount: list.totalCount ?? list.players.length,
+      fromCache: refreshStatus !== 'refreshed',
+      snapshotDate: null,
+      cacheAgeSeconds: lastUpdated ? Math.max(0, Math.round((Date.now() - new Date(lastUpdated).getTime()) / 1000)) : null,
+      refreshing: refreshStatus === 'refreshing',
+      refreshStatus,
     };
 
     return new Response(JSON.stringify(response), {
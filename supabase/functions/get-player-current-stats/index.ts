@@ -17,16 +17,32 @@
  * - Admins see num_prestiges, regular users get null for that field
  * - Uses service role key to bypass RLS for cache access
  * 
+ * GRADE STANDING:
+ * ===============
+ * - gradeStanding ranks the player against everyone in the same grade
+ * - Rank ties share a rank (1, 1, 3), same as the Leaderboards page
+ * - percentile = share of the grade with a lower value than the player
+ * - Only ranks and percentiles are returned, never other players' values
+ * - Prestige standing is only included for admins
+ * 
+ * GUILD STANDING:
+ * ===============
+ * - guildStanding is the same rank/percentile computed across the whole guild
+ * - Each metric also carries a binned histogram and five-number summary
+ *   (min, quartiles, max) so the dashboard can chart the distribution
+ * - EB and SE are binned on a log10 scale, other metrics linearly
+ * 
  * PERFORMANCE:
  * ============
- * - Single row query (WHERE discord_id = ?) is instant (PRIMARY KEY)
- * - No pagination needed
+ * - The whole cache is read in one get_leaderboard_cache() call (needed for
+ *   the standings anyway), so the player row and standings are consistent
  * - Reuses existing leaderboard cache (no separate API call)
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { verify } from 'https://deno.land/x/djwt@v2.8/mod.ts';
+import { readLeaderboardCache } from '../_shared/leaderboard-cache.ts';
 
 // CORS headers for browser requests
 const corsHeaders = {
@@ -49,6 +65,42 @@ interface LeaderboardPlayer {
   grade: string;
   is_guest: boolean;
   active: boolean;
+  gains_saturday: number | null;
+  max_mystical_eggs: number | null;
+}
+
+const STANDING_METRICS = ['eb', 'se', 'pe', 'te', 'num_prestiges'] as const;
+
+interface MetricStanding {
+  rank: number;
+  percentile: number;
+  rankedCount: number;
+}
+
+interface GradeStanding {
+  grade: string;
+  playerCount: number;
+  metrics: Record<typeof STANDING_METRICS[number], MetricStanding | null>;
+}
+
+const HISTOGRAM_BINS = 20;
+
+// Metrics spanning many orders of magnitude are binned on a log scale
+const LOG_SCALE_METRICS = ['eb', 'se'];
+
+interface MetricDistribution {
+  scale: 'log' | 'linear';
+  bins: Array<{ start: number; end: number; count: number }>;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+interface GuildStanding {
+  playerCount: number;
+  metrics: Record<typeof STANDING_METRICS[number], (MetricStanding & { distribution: MetricDistribution }) | null>;
 }
 
 interface CacheMetadata {
@@ -112,27 +164,133 @@ async function getCacheMetadata(supabase): Promise<CacheMetadata | null> {
 }
 
 /**
- * Get current stats for a specific player from cache
+ * Non-null numeric values of a metric
  */
-async function getPlayerFromCache(
-  supabase,
-  discordId: string
-): Promise<LeaderboardPlayer | null> {
-  const { data, error } = await supabase
-    .from('leaderboard_cache')
-    .select('*')
-    .eq('discord_id', discordId)
-    .single();
+function metricValues(rows, metric: typeof STANDING_METRICS[number]): number[] {
+  return rows
+    .map(row => row[metric])
+    .filter(v => v != null)
+    .map(v => Number(v));
+}
 
-  if (error) {
-    if (error.code === 'PGRST116') {
-      // No rows returned - player not in cache
-      return null;
+/**
+ * Value at quantile q (0-1) of a sorted array, with linear interpolation
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Histogram and five-number summary for a metric
+ */
+function calculateDistribution(values: number[], useLog: boolean): MetricDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  // Log bins need positive values; zeros fall into the first bin
+  const toScale = (v: number) => (useLog ? Math.log10(Math.max(v, 1)) : v);
+  const fromScale = (v: number) => (useLog ? Math.pow(10, v) : v);
+
+  const low = toScale(sorted[0]);
+  const high = toScale(sorted[sorted.length - 1]);
+  const width = (high - low) / HISTOGRAM_BINS || 1;
+
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    start: fromScale(low + width * i),
+    end: fromScale(low + width * (i + 1)),
+    count: 0,
+  }));
+
+  sorted.forEach(value => {
+    const index = Math.min(Math.floor((toScale(value) - low) / width), HISTOGRAM_BINS - 1);
+    bins[index].count++;
+  });
+
+  return {
+    scale: useLog ? 'log' : 'linear',
+    bins,
+    min: sorted[0],
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Rank and percentile of a value among the given values (highest first)
+ */
+function calculateStanding(value: number | null, values: number[]): MetricStanding | null {
+  if (value == null || values.length === 0) return null;
+
+  const higher = values.filter(v => v > value).length;
+  const lower = values.filter(v => v < value).length;
+
+  return {
+    rank: higher + 1,
+    percentile: (lower / values.length) * 100,
+    rankedCount: values.length,
+  };
+}
+
+/**
+ * Compute the player's standing within their grade for each metric
+ */
+function getGradeStanding(
+  allRows,
+  player: LeaderboardPlayer,
+  accessLevel: 'user' | 'admin'
+): GradeStanding {
+  const gradePlayers = allRows.filter(row => row.grade === player.grade);
+  const metrics = {} as GradeStanding['metrics'];
+
+  STANDING_METRICS.forEach(metric => {
+    // Prestiges are admin-only data, so don't reveal where others stand
+    if (metric === 'num_prestiges' && accessLevel !== 'admin') {
+      metrics[metric] = null;
+      return;
     }
-    throw new Error(`Failed to fetch player from cache: ${error.message}`);
-  }
 
-  return data;
+    const values = metricValues(gradePlayers, metric);
+    metrics[metric] = calculateStanding(player[metric] != null ? Number(player[metric]) : null, values);
+  });
+
+  return {
+    grade: player.grade,
+    playerCount: gradePlayers.length,
+    metrics,
+  };
+}
+
+/**
+ * Compute the player's standing and the distribution across the whole guild
+ */
+function getGuildStanding(
+  allRows,
+  player: LeaderboardPlayer,
+  accessLevel: 'user' | 'admin'
+): GuildStanding {
+  const metrics = {} as GuildStanding['metrics'];
+
+  STANDING_METRICS.forEach(metric => {
+    // Prestiges are admin-only data, so don't reveal where others stand
+    if (metric === 'num_prestiges' && accessLevel !== 'admin') {
+      metrics[metric] = null;
+      return;
+    }
+
+    const values = metricValues(allRows, metric);
+    const standing = calculateStanding(player[metric] != null ? Number(player[metric]) : null, values);
+    metrics[metric] = standing
+      ? { ...standing, distribution: calculateDistribution(values, LOG_SCALE_METRICS.includes(metric)) }
+      : null;
+  });
+
+  return {
+    playerCount: allRows.length,
+    metrics,
+  };
 }
 
 /**
@@ -252,14 +410,22 @@ serve(async (req: Request) => {
     // Get cache metadata to include last updated time
     const cacheMetadata = await getCacheMetadata(supabase);
 
-    // Fetch the player's current stats from cache
-    const player = await getPlayerFromCache(supabase, discordIdToQuery);
+    // One read of the whole cache, so the player and their standings come
+    // from the same published version
+    const allRows = await readLeaderboardCache(supabase);
+    const player = allRows.find(row => row.discord_id === discordIdToQuery) ?? null;
 
     // Filter based on access level
     const filteredPlayer = filterByAccessLevel(player, accessLevel, discordId, discordIdToQuery);
 
+    // Rank the player within their grade and the guild (uses unfiltered values)
+    const gradeStanding = player ? getGradeStanding(allRows, player, accessLevel) : null;
+    const guildStanding = player ? getGuildStanding(allRows, player, accessLevel) : null;
+
     const response = {
       player: filteredPlayer,
+      gradeStanding,
+      guildStanding,
       lastUpdated: cacheMetadata?.last_updated || new Date().toISOString(),
       fromCache: true,
     };
@@ -0,0 +1,287 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+/**
+ * Get Top Gainers Edge Function
+ *
+ * Compares two saved snapshots and returns each player's change in
+ * eb, se, pe, te and num_prestiges (absolute and percentage).
+ *
+ * QUERY PARAMETERS:
+ * =================
+ * - from (required): Earlier snapshot date (YYYY-MM-DD)
+ * - to (required): Later snapshot date (YYYY-MM-DD)
+ *
+ * Only players present in both snapshots are returned.
+ *
+ * SECURITY:
+ * =========
+ * - Requires valid JWT (same as discord-auth)
+ * - Admins see num_prestiges deltas, regular users get null for that metric
+ * - Uses service role key to bypass RLS on player_snapshots
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { verifyJWT, isAdmin } from '../_shared/auth.ts';
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+const GAIN_METRICS = ['eb', 'se', 'pe', 'te', 'num_prestiges'] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface SnapshotRow {
+  discord_id: string;
+  ign: string;
+  display_name: string | null;
+  discord_name: string;
+  grade: string;
+  farmer_role: string | null;
+  active: boolean;
+  eb: number | null;
+  se: number | null;
+  pe: number | null;
+  te: number | null;
+  num_prestiges: number | null;
+}
+
+interface MetricDelta {
+  from: number;
+  to: number;
+  gain: number;
+  gainPct: number | null;
+}
+
+interface TopGainerEntry {
+  discord_id: string;
+  ign: string;
+  display_name: string | null;
+  discord_name: string;
+  grade: string;
+  farmer_role: string | null;
+  active: boolean;
+  deltas: Record<typeof GAIN_METRICS[number], MetricDelta | null>;
+}
+
+/**
+ * Get player_snapshots rows for a single snapshot date (handles pagination)
+ */
+async function getSnapshotRows(supabase, snapshotDate: string): Promise<SnapshotRow[]> {
+  const allRows: SnapshotRow[] = [];
+  const PAGE_SIZE = 1000;
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('player_snapshots')
+      .select('discord_id, ign, display_name, discord_name, grade, farmer_role, active, eb, se, pe, te, num_prestiges')
+      .eq('snapshot_date', snapshotDate)
+      .order('discord_id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch snapshot ${snapshotDate}: ${error.message}`);
+    }
+
+    if (data && data.length > 0) {
+      allRows.push(...data);
+      offset += PAGE_SIZE;
+      hasMore = data.length === PAGE_SIZE;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  return allRows;
+}
+
+/**
+ * Change between two values, or null if either side is missing
+ */
+function calculateDelta(fromValue: number | null, toValue: number | null): MetricDelta | null {
+  if (fromValue == null || toValue == null) return null;
+
+  const from = Number(fromValue);
+  const to = Number(toValue);
+  const gain = to - from;
+
+  return {
+    from,
+    to,
+    gain,
+    gainPct: from !== 0 ? (gain / from) * 100 : null,
+  };
+}
+
+/**
+ * Join two snapshots by discord_id and compute per-metric deltas.
+ * Names, grade and role come from the later snapshot.
+ */
+function buildEntries(fromRows: SnapshotRow[], toRows: SnapshotRow[]): TopGainerEntry[] {
+  const fromById = new Map(fromRows.map(row => [row.discord_id, row]));
+
+  return toRows
+    .filter(row => fromById.has(row.discord_id))
+    .map(row => {
+      const previous = fromById.get(row.discord_id);
+      const deltas = {} as TopGainerEntry['deltas'];
+      GAIN_METRICS.forEach(metric => {
+        deltas[metric] = calculateDelta(previous[metric], row[metric]);
+      });
+
+      return {
+        discord_id: row.discord_id,
+        ign: row.ign,
+        display_name: row.display_name,
+        discord_name: row.discord_name,
+        grade: row.grade,
+        farmer_role: row.farmer_role,
+        active: row.active,
+        deltas,
+      };
+    });
+}
+
+/**
+ * Filter data based on access level
+ * Non-admins don't see num_prestiges deltas
+ */
+function filterByAccessLevel(
+  entries: TopGainerEntry[],
+  accessLevel: 'user' | 'admin'
+): TopGainerEntry[] {
+  if (accessLevel === 'admin') {
+    return entries;
+  }
+
+  return entries.map(entry => ({
+    ...entry,
+    deltas: {
+      ...entry.deltas,
+      num_prestiges: null,
+    },
+  }));
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only accept GET requests
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    // Validate environment variables
+    const jwtSecret = Deno.env.get('JWT_SECRET');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!jwtSecret || !supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables');
+    }
+
+    // Verify JWT
+    const authHeader = req.headers.get('Authorization');
+    const jwtPayload = await verifyJWT(authHeader, jwtSecret);
+
+    if (!jwtPayload) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Invalid or missing JWT' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Check JWT expiration
+    if (jwtPayload.exp && jwtPayload.exp < Date.now() / 1000) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: JWT expired' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const accessLevel = isAdmin(jwtPayload) ? 'admin' : 'user';
+
+    // Validate date range
+    const url = new URL(req.url);
+    const fromDate = url.searchParams.get('from');
+    const toDate = url.searchParams.get('to');
+
+    if (!fromDate || !toDate || !DATE_PATTERN.test(fromDate) || !DATE_PATTERN.test(toDate)) {
+      return new Response(
+        JSON.stringify({ error: 'from and to parameters are required (YYYY-MM-DD)' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (fromDate >= toDate) {
+      return new Response(
+        JSON.stringify({ error: 'from must be earlier than to' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    console.log(`Computing top gainers ${fromDate} -> ${toDate} (${accessLevel})`);
+
+    // Create Supabase client with service role (bypasses RLS)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const [fromRows, toRows] = await Promise.all([
+      getSnapshotRows(supabase, fromDate),
+      getSnapshotRows(supabase, toDate),
+    ]);
+
+    const entries = filterByAccessLevel(buildEntries(fromRows, toRows), accessLevel);
+
+    const response = {
+      from: fromDate,
+      to: toDate,
+      playerCount: entries.length,
+      entries,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Get top gainers error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to get top gainers', details: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,284 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-nocheck
+/**
+ * Manage Excluded Players Edge Function
+ * 
+ * Admin API for the excluded_players table, which shouldSaveSnapshot uses to
+ * ignore players whose save data stopped updating.
+ * 
+ * ENDPOINTS:
+ * ==========
+ * GET    - List exclusions and exclusion candidates
+ *          - excluded: every exclusion, with the player's IGN and current
+ *            updatedAt from the bot API and whether the exclusion has expired
+ *          - candidates: non-excluded players that missed the sync window on at
+ *            least EXCLUSION_CANDIDATE_MIN_DAYS distinct days in the last
+ *            EXCLUSION_CANDIDATE_LOOKBACK_DAYS (from player_sync_misses)
+ *          - chronicDesync: players outside the sync window in at least
+ *            DESYNC_STREAK_THRESHOLD consecutive decisions (player_sync_streaks)
+ * POST   - Add or update an exclusion
+ *          Body: { discord_id, reason, notes?, expires_at?, expire_on_sync? }
+ *          expire_on_sync ends the exclusion once the player syncs again
+ * DELETE - Remove an exclusion
+ *          Body: { discord_id }
+ * 
+ * SECURITY:
+ * =========
+ * - Requires a valid admin JWT
+ * - excluded_players is changed through the admin's own JWT (RLS), so the
+ *   audit trigger records the admin as performed_by
+ * - Service role is only used to read player_sync_misses / player_sync_streaks
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+import type { BotApiPlayer } from '../_shared/types.ts';
+import { verifyJWT, isAdmin } from '../_shared/auth.ts';
+import { SNAPSHOT_CONFIG, DERIVED_CONSTANTS } from '../_shared/snapshot-config.ts';
+import { loadPlayers } from '../_shared/data-source.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+};
+
+const PAGE_SIZE = 1000;
+
+interface ExclusionCandidate {
+  discord_id: string;
+  ign: string;
+  miss_count: number;
+  days_missed: number;
+  last_missed_at: string;
+  updated_at: string | null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Fetch current players from the player data source, keyed by discord_id.
+ * Non-fatal: the page still works without IGNs and updatedAt.
+ */
+async function fetchBotApiPlayers(): Promise<Map<string, BotApiPlayer>> {
+  const players = new Map<string, BotApiPlayer>();
+
+  try {
+    const { players: data } = await loadPlayers();
+    for (const player of data) {
+      players.set(player.ID, player);
+    }
+  } catch (error) {
+    console.error('Failed to fetch bot API:', error);
+  }
+
+  return players;
+}
+
+/**
+ * Aggregate player_sync_misses within the lookback window into candidates
+ */
+async function getExclusionCandidates(
+  supabase,
+  excludedIds: Set<string>,
+  botPlayers: Map<string, BotApiPlayer>
+): Promise<ExclusionCandidate[]> {
+  const cutoff = new Date(Date.now() - DERIVED_CONSTANTS.EXCLUSION_CANDIDATE_LOOKBACK_MS).toISOString();
+  const byPlayer = new Map<string, { ign: string; misses: number; days: Set<string>; lastMissedAt: string }>();
+
+  let from = 0;
+  while (true) {
+    const { data, error } = await supabase
+      .from('player_sync_misses')
+      .select('discord_id, ign, recorded_at')
+      .gte('recorded_at', cutoff)
+      .order('recorded_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch sync misses: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      if (excludedIds.has(row.discord_id)) continue;
+
+      const entry = byPlayer.get(row.discord_id) ?? { ign: row.ign, misses: 0, days: new Set<string>(), lastMissedAt: row.recorded_at };
+      entry.ign = row.ign;
+      entry.misses++;
+      entry.days.add(row.recorded_at.split('T')[0]);
+      entry.lastMissedAt = row.recorded_at;
+      byPlayer.set(row.discord_id, entry);
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+    from += PAGE_SIZE;
+  }
+
+  return Array.from(byPlayer.entries())
+    .filter(([, entry]) => entry.days.size >= SNAPSHOT_CONFIG.EXCLUSION_CANDIDATE_MIN_DAYS)
+    .map(([discordId, entry]) => ({
+      discord_id: discordId,
+      ign: entry.ign,
+      miss_count: entry.misses,
+      days_missed: entry.days.size,
+      last_missed_at: entry.lastMissedAt,
+      updated_at: botPlayers.get(discordId)?.updatedAt ?? null,
+    }))
+    .sort((a, b) => b.days_missed - a.days_missed || b.miss_count - a.miss_count);
+}
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!['GET', 'POST', 'DELETE'].includes(req.method)) {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const jwtSecret = Deno.env.get('JWT_SECRET');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!jwtSecret || !supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      throw new Error('Missing required environment variables');
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    const jwtPayload = await verifyJWT(authHeader, jwtSecret);
+
+    if (!jwtPayload || !isAdmin(jwtPayload)) {
+      return jsonResponse({ error: 'Unauthorized: Requires admin JWT' }, 401);
+    }
+
+    if (jwtPayload.exp && jwtPayload.exp < Date.now() / 1000) {
+      return jsonResponse({ error: 'Unauthorized: JWT expired' }, 401);
+    }
+
+    // Client acting as the admin (RLS + audit trigger attribution)
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    if (req.method === 'GET') {
+      const { data: excluded, error } = await userClient
+        .from('excluded_players')
+        .select('discord_id, reason, excluded_at, excluded_by, notes, expires_at, expire_on_sync')
+        .order('excluded_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch excluded players: ${error.message}`);
+      }
+
+      const supabase = createClient(supabaseUrl, supabaseServiceKey);
+      const botPlayers = await fetchBotApiPlayers();
+      const now = Date.now();
+      const candidates = await getExclusionCandidates(
+        supabase,
+        new Set((excluded || []).map(row => row.discord_id)),
+        botPlayers
+      );
+
+      const { data: chronicDesync, error: streakError } = await supabase
+        .from('player_sync_streaks')
+        .select('discord_id, ign, consecutive_misses, streak_started_at, last_missed_at, last_updated_at, digest_sent_at')
+        .gte('consecutive_misses', SNAPSHOT_CONFIG.DESYNC_STREAK_THRESHOLD)
+        .order('consecutive_misses', { ascending: false });
+
+      if (streakError) {
+        throw new Error(`Failed to fetch sync streaks: ${streakError.message}`);
+      }
+
+      return jsonResponse({
+        excluded: (excluded || []).map(row => ({
+          ...row,
+          ign: botPlayers.get(row.discord_id)?.IGN ?? null,
+          updated_at: botPlayers.get(row.discord_id)?.updatedAt ?? null,
+          expired: row.expires_at !== null && new Date(row.expires_at).getTime() <= now,
+        })),
+        candidates,
+        candidateCriteria: {
+          lookbackDays: SNAPSHOT_CONFIG.EXCLUSION_CANDIDATE_LOOKBACK_DAYS,
+          minDays: SNAPSHOT_CONFIG.EXCLUSION_CANDIDATE_MIN_DAYS,
+        },
+        chronicDesync: chronicDesync || [],
+        desyncStreakThreshold: SNAPSHOT_CONFIG.DESYNC_STREAK_THRESHOLD,
+      });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const discordId = typeof body.discord_id === 'string' ? body.discord_id.trim() : '';
+
+    if (!discordId) {
+      return jsonResponse({ success: false, error: 'discord_id is required in request body' }, 400);
+    }
+
+    if (req.method === 'DELETE') {
+      const { data, error } = await userClient
+        .from('excluded_players')
+        .delete()
+        .eq('discord_id', discordId)
+        .select('discord_id');
+
+      if (error) {
+        throw new Error(`Failed to remove exclusion: ${error.message}`);
+      }
+      if (!data || data.length === 0) {
+        return jsonResponse({ success: false, error: `Player ${discordId} is not excluded` }, 404);
+      }
+
+      console.log(`Admin ${jwtPayload.discord_id} removed exclusion for ${discordId}`);
+      return jsonResponse({ success: true, discordId, message: `Removed exclusion for ${discordId}` });
+    }
+
+    // POST - add or update
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) {
+      return jsonResponse({ success: false, error: 'reason is required in request body' }, 400);
+    }
+
+    let expiresAt: string | null = null;
+    if (body.expires_at) {
+      const expires = new Date(body.expires_at);
+      if (isNaN(expires.getTime()) || expires.getTime() <= Date.now()) {
+        return jsonResponse({ success: false, error: 'expires_at must be a future date' }, 400);
+      }
+      expiresAt = expires.toISOString();
+    }
+
+    const { error } = await userClient
+      .from('excluded_players')
+      .upsert({
+        discord_id: discordId,
+        reason,
+        notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null,
+        expires_at: expiresAt,
+        expire_on_sync: body.expire_on_sync === true,
+        excluded_by: jwtPayload.discord_id,
+      }, { onConflict: 'discord_id' });
+
+    if (error) {
+      throw new Error(`Failed to save exclusion: ${error.message}`);
+    }
+
+    console.log(`Admin ${jwtPayload.discord_id} excluded ${discordId}`);
+    return jsonResponse({ success: true, discordId, message: `Excluded ${discordId}` });
+  } catch (error) {
+    console.error('Error in manage-excluded-players:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+});
@@ -8,13 +8,22 @@
  * WORKFLOW:
  * =========
  * 1. Verify JWT authorization (bearer token from cron job)
- * 2. Fetch fresh data from bot API (always, regardless of cache)
+ * 2. Fetch fresh data from bot API (always, regardless of cache) via
+ *    _shared/data-source.ts; invalid rows are skipped and quarantined in
+ *    quarantined_player_rows
  * 3. Get excluded player IDs from database
- * 4. Update leaderboard_cache table (always)
+ * 4. Update leaderboard_cache table (always, staged and published atomically)
+ *    and record any new IGN / display name / Discord name in player_name_history
  * 5. Evaluate snapshot decision logic (should we save historical snapshot?)
+ *    and record players outside the majority's sync window in
+ *    player_sync_misses / player_sync_streaks (record_sync_decision);
+ *    end expire_on_sync exclusions for resynced players
  * 6. If conditions met: call update-player-data internally
  * 7. Update snapshot_save_metadata with decision
+ *    and append it to snapshot_decision_log
  * 8. Check for week-no-update alert
+ * 9. Email a digest of players out of sync for DESYNC_STREAK_THRESHOLD+ decisions
+ * 10. Purge archived snapshots past their retention period
  * 
  * SECURITY:
  * =========
@@ -30,6 +39,8 @@ import type {
   BotApiPlayer, 
   LeaderboardCacheEntry, 
   SnapshotSaveMetadata,
+  SnapshotDecision,
+  PlayerSyncStreak,
   UpdatePlayerDataRequest,
   UpdatePlayerDataResponse
 } from '../_shared/types.ts';
@@ -37,13 +48,22 @@ import { verifyJWT, isServiceRole } from '../_shared/auth.ts';
 import { 
   shouldSaveSnapshot, 
   shouldSendWeekNoUpdateAlert,
-  createPendingSyncData
+  createPendingSyncData,
+  findResyncedPlayers,
+  findDesyncedPlayers
 } from '../_shared/snapshot-logic.ts';
 import { 
   sendEmail, 
   logEmail,
-  createWeekNoUpdateEmail
+  createWeekNoUpdateEmail,
+  createDesyncDigestEmail
 } from '../_shared/email-service.ts';
+import { recordPlayerNames } from '../_shared/name-history.ts';
+import { writeAuditLog } from '../_shared/audit-log.ts';
+import { loadPlayers, toLeaderboardEntry } from '../_shared/data-source.ts';
+import { quarantinePlayerRows } from '../_shared/quarantine.ts';
+import { publishLeaderboardCache } from '../_shared/leaderboard-cache.ts';
+import { SNAPSHOT_CONFIG } from '../_shared/snapshot-config.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -51,36 +71,14 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-const BATCH_SIZE = 100;
-
 /**
- * Fetch data from bot API
- */
-async function fetchFromBotAPI(botApiUrl: string): Promise<BotApiPlayer[]> {
-  console.log('Fetching fresh data from bot API...');
-
-  const response = await fetch(botApiUrl);
-  if (!response.ok) {
-    throw new Error(`Bot API returned ${response.status}: ${response.statusText}`);
-  }
-
-  const players = await response.json();
-
-  if (!Array.isArray(players) || players.length === 0) {
-    throw new Error('No player data returned from bot API');
-  }
-
-  console.log(`Received ${players.length} players from bot API`);
-  return players;
-}
-
-/**
- * Get excluded player IDs from database
+ * Get excluded player IDs from database (expired exclusions are ignored)
  */
 async function getExcludedPlayerIds(supabase): Promise<string[]> {
   const { data, error } = await supabase
     .from('excluded_players')
-    .select('discord_id');
+    .select('discord_id')
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
 
   if (error) {
     console.error('Failed to fetch excluded players:', error);
@@ -91,72 +89,14 @@ async function getExcludedPlayerIds(supabase): Promise<string[]> {
 }
 
 /**
- * Transform bot API player to leaderboard cache format
- */
-function transformToLeaderboardCache(player: BotApiPlayer): LeaderboardCacheEntry {
-  return {
-    discord_id: player.ID,
-    ign: player.IGN,
-    display_name: player.displayName || null,
-    discord_name: player.discordName,
-    eb: player.EB,
-    se: player.SE,
-    pe: player.PE,
-    te: player.TE || null,
-    num_prestiges: player.numPrestiges || null,
-    farmer_role: player.farmerRole || null,
-    grade: player.grade,
-    is_guest: player.isGuest || false,
-    active: player.active !== undefined ? player.active : true,
-  };
-}
-
-/**
- * Update leaderboard cache in database
+ * Publish a new leaderboard cache version (_shared/leaderboard-cache.ts)
  */
 async function updateLeaderboardCache(
   supabase,
   players: BotApiPlayer[]
 ): Promise<void> {
-  console.log(`Updating leaderboard cache with ${players.length} players...`);
-
-  const cacheEntries = players.map(transformToLeaderboardCache);
-
-  // Clear existing cache
-  const { error: deleteError } = await supabase
-    .from('leaderboard_cache')
-    .delete()
-    .neq('discord_id', '');
-
-  if (deleteError) {
-    throw new Error(`Failed to clear cache: ${deleteError.message}`);
-  }
-
-  // Insert new data in batches
-  for (let i = 0; i < cacheEntries.length; i += BATCH_SIZE) {
-    const batch = cacheEntries.slice(i, i + BATCH_SIZE);
-    const { error: insertError } = await supabase
-      .from('leaderboard_cache')
-      .insert(batch);
-
-    if (insertError) {
-      throw new Error(`Failed to insert cache batch: ${insertError.message}`);
-    }
-  }
-
-  // Update cache metadata
-  const { error: metaError } = await supabase
-    .from('leaderboard_cache_metadata')
-    .upsert({
-      id: 1,
-      last_updated: new Date().toISOString(),
-    });
-
-  if (metaError) {
-    console.warn('Failed to update cache metadata:', metaError);
-  }
-
-  console.log('Leaderboard cache updated successfully');
+  const cacheEntries: LeaderboardCacheEntry[] = players.map(toLeaderboardEntry);
+  await publishLeaderboardCache(supabase, cacheEntries);
 }
 
 /**
@@ -195,29 +135,194 @@ async function updateSnapshotMetadata(
 }
 
 /**
- * Call update-player-data edge function internally
+ * Append this run's decision (and whether a snapshot was saved) to
+ * snapshot_decision_log. Non-fatal: only used for the admin timeline.
+ */
+async function logSnapshotDecision(
+  supabase,
+  decision: SnapshotDecision,
+  saveOutcome: SnapshotSaveOutcome | null
+): Promise<void> {
+  const snapshotResult = saveOutcome?.result ?? null;
+
+  const { error } = await supabase
+    .from('snapshot_decision_log')
+    .insert({
+      should_save: decision.shouldSave,
+      sync_percentage: decision.syncPercentage,
+      players_in_sync_window: decision.playersInSyncWindow,
+      total_non_excluded_players: decision.totalNonExcludedPlayers,
+      total_players_received: decision.totalPlayersReceived,
+      excluded_player_count: decision.excludedPlayerCount,
+      missing_player_count: decision.missingPlayers?.length || 0,
+      lowest_updated_at: decision.lowestUpdatedAt?.toISOString() || null,
+      time_since_lowest_update_hours: decision.timeSinceLowestUpdateHours,
+      hours_since_last_save: Number.isFinite(decision.hoursSinceLastSave) ? decision.hoursSinceLastSave : null,
+      reason: decision.reason,
+      is_pending_sync: decision.isPendingSync,
+      pending_attempt_count: decision.pendingAttemptCount,
+      snapshot_saved: snapshotResult?.success === true,
+      snapshot_date: snapshotResult?.snapshotDate || null,
+      save_error: saveOutcome?.error ?? null,
+      save_blocked: saveOutcome?.blocked === true,
+    });
+
+  if (error) {
+    console.error('Failed to log snapshot decision:', error);
+  }
+}
+
+/**
+ * Record players outside the majority's sync window (findDesyncedPlayers):
+ * appends them to player_sync_misses (exclusion candidates) and applies the
+ * decision to player_sync_streaks (consecutive decisions out of sync).
+ * Non-fatal: returns [] on failure.
+ */
+async function recordSyncDecision(
+  supabase,
+  desyncedPlayers: SnapshotDecision['missingPlayers']
+): Promise<PlayerSyncStreak[]> {
+  const { data, error } = await supabase.rpc('record_sync_decision', {
+    p_missing_players: desyncedPlayers || [],
+    p_lookback_days: SNAPSHOT_CONFIG.EXCLUSION_CANDIDATE_LOOKBACK_DAYS,
+  });
+
+  if (error) {
+    console.error('Failed to record sync streaks:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * End exclusions flagged expire_on_sync for players that are back in the
+ * sync window. The excluded_players audit trigger records each change.
+ */
+async function expireResyncedExclusions(
+  supabase,
+  players: BotApiPlayer[],
+  decision: SnapshotDecision
+): Promise<string[]> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('excluded_players')
+    .select('discord_id')
+    .eq('expire_on_sync', true)
+    .or(`expires_at.is.null,expires_at.gt.${now}`);
+
+  if (error) {
+    console.error('Failed to fetch auto-expiring exclusions:', error);
+    return [];
+  }
+
+  const resynced = findResyncedPlayers(players, (data || []).map(row => row.discord_id), decision);
+  if (resynced.length === 0) {
+    return [];
+  }
+
+  const { error: updateError } = await supabase
+    .from('excluded_players')
+    .update({ expires_at: now })
+    .in('discord_id', resynced);
+
+  if (updateError) {
+    console.error('Failed to expire exclusions:', updateError);
+    return [];
+  }
+
+  console.log(`Expired exclusions for resynced players: ${resynced.join(', ')}`);
+  return resynced;
+}
+
+/**
+ * Permanently delete archived snapshots past purge_after (see delete-snapshot).
+ * Non-fatal: a failed purge is retried on the next run.
+ */
+async function purgeArchivedSnapshots(supabase): Promise<string[]> {
+  const { data, error } = await supabase.rpc('purge_archived_snapshots');
+
+  if (error) {
+    console.error('Failed to purge archived snapshots:', error);
+    return [];
+  }
+
+  const purged = (data || []) as { snapshot_date: string; purged_rows: number }[];
+  if (purged.length > 0) {
+    console.log(`Purged ${purged.length} archived snapshots`);
+    await writeAuditLog(supabase, {
+      action: 'purge_archived_snapshots',
+      performedBy: 'service_role',
+      authMethod: 'service_role',
+      result: { purged },
+    });
+  }
+
+  return purged.map(p => p.snapshot_date);
+}
+
+/**
+ * Result of asking update-player-data to save a snapshot.
+ * Exactly one of result / error is set. blocked means the data quality
+ * checks refused the snapshot (error is the block reason).
+ */
+interface SnapshotSaveOutcome {
+  result: UpdatePlayerDataResponse | null;
+  error: string | null;
+  blocked: boolean;
+}
+
+/**
+ * Call update-player-data edge function internally.
+ * A failed save (e.g. a rolled-back import) is returned, not thrown, so the
+ * rest of the cron run (decision log, digest, purge) still happens.
  */
 async function callUpdatePlayerData(
   supabaseUrl: string,
   serviceRoleKey: string,
   request: UpdatePlayerDataRequest
-): Promise<UpdatePlayerDataResponse> {
-  const response = await fetch(`${supabaseUrl}/functions/v1/update-player-data`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${serviceRoleKey}`,
-      'x-internal-call': 'true',
-    },
-    body: JSON.stringify(request),
-  });
+): Promise<SnapshotSaveOutcome> {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/update-player-data`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceRoleKey}`,
+        'x-internal-call': 'true',
+      },
+      body: JSON.stringify(request),
+    });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`update-player-data failed: ${response.status} - ${errorText}`);
-  }
+    if (!response.ok) {
+      const errorText = await response.text();
+      const errorBody = (() => {
+        try {
+          return JSON.parse(errorText);
+        } catch {
+          return null;
+        }
+      })();
+
+      // 422: blocked by the data quality checks, not a crash
+      if (response.status === 422) {
+        return { result: null, error: errorBody?.error || errorText, blocked: true };
+      }
 
-  return await response.json();
+      return {
+        result: null,
+        error: `update-player-data failed: ${response.status} - ${errorBody?.error || errorText}`,
+        blocked: false,
+      };
+    }
+
+    return { result: await response.json(), error: null, blocked: false };
+  } catch (error) {
+    return {
+      result: null,
+      error: `update-player-data failed: ${error instanceof Error ? error.message : String(error)}`,
+      blocked: false,
+    };
+  }
 }
 
 serve(async (req: Request) => {
@@ -241,12 +346,11 @@ serve(async (req: Request) => {
     // Validate environment variables
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-    const botApiUrl = Deno.env.get('WONKY_ENDPOINT_URL');
     const resendApiKey = Deno.env.get('RESEND_API_KEY');
     const notificationEmail = Deno.env.get('NOTIFICATION_EMAIL');
     const jwtSecret = Deno.env.get('JWT_SECRET');
 
-    if (!jwtSecret || !supabaseUrl || !supabaseServiceKey || !botApiUrl) {
+    if (!jwtSecret || !supabaseUrl || !supabaseServiceKey) {
       throw new Error('Missing required environment variables');
     }
 
@@ -276,7 +380,8 @@ serve(async (req: Request) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Step 1: Fetch fresh data from bot API
-    const players = await fetchFromBotAPI(botApiUrl);
+    const { players, rowErrors, source } = await loadPlayers();
+    await quarantinePlayerRows(supabase, rowErrors, { source, caller: 'refresh-leaderboard-cron' });
 
     // Step 2: Get excluded player IDs
     const excludedIds = await getExcludedPlayerIds(supabase);
@@ -284,6 +389,7 @@ serve(async (req: Request) => {
 
     // Step 3: Update leaderboard cache (always)
     await updateLeaderboardCache(supabase, players);
+    const nameHistory = await recordPlayerNames(supabase, players);
 
     // Step 4: Get current snapshot metadata
     const metadata = await getSnapshotMetadata(supabase);
@@ -297,19 +403,26 @@ serve(async (req: Request) => {
       last_decision_at: new Date().toISOString(),
       last_decision_result: decision,
     });
+    // Desync is measured against the majority, not the decision's oldest updatedAt,
+    // and only decisions that actually compared players are recorded
+    const syncStreaks = decision.lowestUpdatedAt
+      ? await recordSyncDecision(supabase, findDesyncedPlayers(players, excludedIds))
+      : [];
+    const expiredExclusions = await expireResyncedExclusions(supabase, players, decision);
 
-    let snapshotResult: UpdatePlayerDataResponse | null = null;
+    let saveOutcome: SnapshotSaveOutcome | null = null;
 
     // Step 7: Handle snapshot saving
     if (decision.shouldSave) {
       console.log('Conditions met, saving snapshot...');
 
       // Call update-player-data
-      snapshotResult = await callUpdatePlayerData(supabaseUrl, supabaseServiceKey, {
+      saveOutcome = await callUpdatePlayerData(supabaseUrl, supabaseServiceKey, {
         internalCall: true,
         players: players,
         snapshotDate: new Date().toISOString().split('T')[0],
         sendEmail: true,
+        quarantinedRows: rowErrors.length,
         emailContext: {
           syncPercentage: decision.syncPercentage,
           missingPlayers: decision.missingPlayers,
@@ -317,16 +430,24 @@ serve(async (req: Request) => {
         },
       });
 
-      // Update metadata with save timestamp and clear pending sync
-      await updateSnapshotMetadata(supabase, {
-        last_saved_at: new Date().toISOString(),
-        pending_sync_data: null,
-        pending_sync_first_attempt: null,
-        pending_sync_attempt_count: 0,
-        pending_sync_metadata: null,
-      });
-
-      console.log('Snapshot saved successfully');
+      if (saveOutcome.result) {
+        // Update metadata with save timestamp and clear pending sync
+        await updateSnapshotMetadata(supabase, {
+          last_saved_at: new Date().toISOString(),
+          pending_sync_data: null,
+          pending_sync_first_attempt: null,
+          pending_sync_attempt_count: 0,
+          pending_sync_metadata: null,
+        });
+
+        console.log('Snapshot saved successfully');
+      } else if (saveOutcome.blocked) {
+        // update-player-data already emailed the block; the next run tries again
+        console.warn('Snapshot blocked by data quality checks:', saveOutcome.error);
+      } else {
+        // Nothing was saved; last_saved_at stays put so the next run tries again
+        console.error('Snapshot not saved:', saveOutcome.error);
+      }
     } else if (decision.isPendingSync) {
       // Store pending sync data for next attempt
       console.log('Storing pending sync data for retry...');
@@ -347,6 +468,9 @@ serve(async (req: Request) => {
       console.log('Reason:', decision.reason);
     }
 
+    await logSnapshotDecision(supabase, decision, saveOutcome);
+    const snapshotResult = saveOutcome?.result ?? null;
+
     // Step 8: Check for week-no-update alert
     if (resendApiKey && notificationEmail) {
       const shouldAlert = shouldSendWeekNoUpdateAlert(metadata);
@@ -376,20 +500,52 @@ serve(async (req: Request) => {
       }
     }
 
+    // Step 9: Email chronically desynced players (once per streak)
+    const chronicDesync = syncStreaks.filter(
+      streak => streak.consecutive_misses >= SNAPSHOT_CONFIG.DESYNC_STREAK_THRESHOLD && !streak.digest_sent_at
+    );
+
+    if (chronicDesync.length > 0 && resendApiKey && notificationEmail) {
+      console.log(`Sending desync digest for ${chronicDesync.length} players...`);
+
+      const emailData = createDesyncDigestEmail(notificationEmail, chronicDesync, SNAPSHOT_CONFIG.DESYNC_STREAK_THRESHOLD);
+      const emailResult = await sendEmail(emailData, resendApiKey);
+      await logEmail(supabase, emailData, emailResult);
+
+      if (emailResult.success) {
+        await supabase
+          .from('player_sync_streaks')
+          .update({ digest_sent_at: new Date().toISOString() })
+          .in('discord_id', chronicDesync.map(streak => streak.discord_id));
+      } else {
+        console.error('Desync digest email failed:', emailResult.error);
+      }
+    }
+
+    // Step 10: Purge expired archived snapshots
+    const purgedSnapshots = await purgeArchivedSnapshots(supabase);
+
     // Return success response
     const response = {
       success: true,
       timestamp: new Date().toISOString(),
       leaderboardCacheUpdated: true,
       playerCount: players.length,
+      quarantinedRows: rowErrors.length,
       excludedCount: excludedIds.length,
+      newNamesRecorded: nameHistory.newNames,
+      purgedSnapshots,
+      chronicDesyncCount: syncStreaks.filter(streak => streak.consecutive_misses >= SNAPSHOT_CONFIG.DESYNC_STREAK_THRESHOLD).length,
+      expiredExclusions,
       decision: {
         shouldSave: decision.shouldSave,
         syncPercentage: decision.syncPercentage,
         reason: decision.reason,
         isPendingSync: decision.isPendingSync,
       },
-      snapshotSaved: decision.shouldSave,
+      snapshotSaved: snapshotResult?.success === true,
+      snapshotBlocked: saveOutcome?.blocked === true,
+      snapshotError: saveOutcome?.error ?? null,
       snapshotResult: snapshotResult ? {
         snapshotDate: snapshotResult.snapshotDate,
         playerCount: snapshotResult.playerCount,
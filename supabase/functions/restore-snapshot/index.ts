@@ -0,0 +1,154 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+//@ts-nocheck
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { verifyJWT, isAdmin } from '../_shared/auth.ts';
+import { writeAuditLog } from '../_shared/audit-log.ts';
+import { refreshMaterializedViews } from '../_shared/materialized-views.ts';
+import { flagSnapshotAnomalies } from '../_shared/snapshot-flags.ts';
+
+// Restores a snapshot archived by delete-snapshot (see migration 014_snapshot_archive.sql)
+Deno.serve(async (req)=>{
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-secret-token'
+      }
+    });
+  }
+  try {
+    const jwtSecret = Deno.env.get('JWT_SECRET');
+    const expectedToken = Deno.env.get('SECRET_TOKEN');
+    
+    if (!jwtSecret || !expectedToken) {
+      throw new Error('Missing required environment variables');
+    }
+    
+    // Authentication: Accept either secret token OR admin JWT (same as delete-snapshot)
+    const secretToken = req.headers.get('x-secret-token');
+    const authHeader = req.headers.get('Authorization');
+    
+    let authenticatedUser: string | null = null;
+    let authMethod: string | null = null;
+    
+    if (authHeader) {
+      const jwtPayload = await verifyJWT(authHeader, jwtSecret);
+      if (jwtPayload && isAdmin(jwtPayload)) {
+        authenticatedUser = jwtPayload.discord_id;
+        authMethod = 'admin_jwt';
+        console.log(`Authenticated admin user: ${authenticatedUser}`);
+      }
+    }
+    
+    if (!authenticatedUser && secretToken === expectedToken) {
+      authenticatedUser = 'secret_token';
+      authMethod = 'secret_token';
+      console.log('Authenticated via secret token');
+    }
+    
+    if (!authenticatedUser) {
+      console.log('Authentication failed');
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized: Requires admin JWT or valid secret token'
+      }), {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+    const body = await req.json();
+    const snapshotDate = body.snapshot_date;
+    if (!snapshotDate) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'snapshot_date is required in request body'
+      }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+    console.log(`User ${authenticatedUser} (via ${authMethod}) restoring snapshot for date: ${snapshotDate}`);
+    
+    // Fails if the date isn't archived or a live snapshot already exists for it
+    const { data: restoredCount, error: restoreError } = await supabase.rpc('restore_snapshot', {
+      p_snapshot_date: snapshotDate,
+    });
+    if (restoreError) {
+      await writeAuditLog(supabase, {
+        action: 'restore_snapshot',
+        performedBy: authenticatedUser,
+        authMethod: authMethod,
+        parameters: { snapshot_date: snapshotDate },
+        result: { error: restoreError.message },
+        success: false,
+      });
+      // P0002: not archived, 23505: live snapshot exists
+      const status = restoreError.code === 'P0002' ? 404 : restoreError.code === '23505' ? 409 : 500;
+      return new Response(JSON.stringify({
+        success: false,
+        error: restoreError.message
+      }), {
+        status,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+    
+    const refreshMaterializedViewsResponse = await refreshMaterializedViews(supabase);
+    
+    // Flag the restored date and re-compare the snapshots after it
+    await flagSnapshotAnomalies(supabase, snapshotDate);
+    
+    await writeAuditLog(supabase, {
+      action: 'restore_snapshot',
+      performedBy: authenticatedUser,
+      authMethod: authMethod,
+      parameters: { snapshot_date: snapshotDate },
+      result: {
+        restored_count: restoredCount || 0,
+        materialized_views: refreshMaterializedViewsResponse,
+      },
+    });
+    
+    const response = {
+      success: true,
+      snapshotDate,
+      restoredRecords: restoredCount || 0,
+      message: `Restored ${restoredCount || 0} player snapshots for ${snapshotDate}`,
+      performedBy: authenticatedUser,
+      refreshMaterializedViewsResponse,
+    };
+    console.log('Restore complete:', response);
+    return new Response(JSON.stringify(response), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error) {
+    console.error('Error in restore-snapshot:', error);
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: errorMsg
+    }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  }
+});
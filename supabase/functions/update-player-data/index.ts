@@ -12,10 +12,19 @@ import {
   sendEmail, 
   logEmail,
   createSnapshotSavedEmail,
-  createPartialSyncEmail
+  createPartialSyncEmail,
+  createSyncFailedEmail
 } from '../_shared/email-service.ts';
+import { recordPlayerNames } from '../_shared/name-history.ts';
+import { verifyJWT, isAdmin } from '../_shared/auth.ts';
+import { writeAuditLog } from '../_shared/audit-log.ts';
+import { refreshMaterializedViews } from '../_shared/materialized-views.ts';
+import { flagSnapshotAnomalies } from '../_shared/snapshot-flags.ts';
+import { loadPlayers, parseBotApiResponse, toLeaderboardEntry } from '../_shared/data-source.ts';
+import { quarantinePlayerRows } from '../_shared/quarantine.ts';
+import { checkSnapshotQuality } from '../_shared/snapshot-validation.ts';
+import { DERIVED_CONSTANTS } from '../_shared/snapshot-config.ts';
 
-const BATCH_SIZE = 100;
 function validateDate(date) {
   if (!date) return null;
   const parsed = new Date(date);
@@ -24,22 +33,8 @@ function validateDate(date) {
 function transformPlayer(player, snapshotDate) {
   return {
     snapshot_date: snapshotDate,
-    discord_id: player.ID,
-    ign: player.IGN,
-    discord_name: player.discordName,
-    display_name: player.displayName || null,
-    farmer_role: player.farmerRole || null,
-    grade: player.grade,
-    active: player.active !== undefined ? player.active : true,
-    is_guest: player.isGuest || false,
-    eb: player.EB,
-    se: player.SE,
-    pe: player.PE,
-    te: player.TE || null,
-    num_prestiges: player.numPrestiges || null,
-    updated_at: validateDate(player.updatedAt),
-    gains_saturday: player.gains?.saturday || null,
-    max_mystical_eggs: player.maxMysticalEggs || null
+    ...toLeaderboardEntry(player),
+    updated_at: validateDate(player.updatedAt)
   };
 }
 function extractEggdayGains(player) {
@@ -61,52 +56,54 @@ function extractEggdayGains(player) {
       end_prestiges: eggDay.eggDayEndPrestiges || null
     }));
 }
-async function batchUpsert(supabase, table, data, conflictColumns) {
-  const batches = [];
-  for(let i = 0; i < data.length; i += BATCH_SIZE){
-    batches.push(data.slice(i, i + BATCH_SIZE));
-  }
-  let successCount = 0;
-  let errorCount = 0;
-  const errors = [];
-  for(let i = 0; i < batches.length; i++){
-    const batch = batches[i];
-    try {
-      const { error } = await supabase.from(table).upsert(batch, {
-        onConflict: conflictColumns.join(','),
-        ignoreDuplicates: false
-      });
-      if (error) {
-        console.error(`Batch ${i + 1}/${batches.length} failed:`, error.message);
-        errorCount += batch.length;
-        errors.push(`Batch ${i + 1}: ${error.message}`);
-      } else {
-        successCount += batch.length;
-        console.log(`Batch ${i + 1}/${batches.length} complete`);
-      }
-    } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : String(err);
-      console.error(`Batch ${i + 1}/${batches.length} error:`, errorMsg);
-      errorCount += batch.length;
-      errors.push(`Batch ${i + 1}: ${errorMsg}`);
-    }
+/**
+ * Write player_snapshots, eggday_gains and snapshot_metadata in one
+ * transaction (import_snapshot RPC) - the snapshot is saved completely or not at all
+ */
+async function importSnapshot(supabase, snapshotDate, snapshots, eggdayGains) {
+  const { data, error } = await supabase.rpc('import_snapshot', {
+    p_snapshot_date: snapshotDate,
+    p_snapshots: snapshots,
+    p_eggday_gains: eggdayGains
+  });
+  if (error) {
+    throw new Error(`Snapshot import failed and was rolled back: ${error.message}`);
   }
+  const row = Array.isArray(data) ? data[0] : data;
   return {
-    successCount,
-    errorCount,
-    errors
+    snapshotsInserted: row?.snapshots_inserted ?? 0,
+    eggdayInserted: row?.eggday_inserted ?? 0
   };
 }
-async function refreshMaterializedViews(supabase) {
-  console.log('Refreshing materialized views...');
-  const { error: refreshError } = await supabase
-    .rpc('refresh_materialized_views');
-
-  if (refreshError) {
-    const errorMessage = 'Failed to refresh materialized views:\n' + refreshError
-    return errorMessage
-  } else {
-    return 'Successfully refreshed all materialized views'
+/**
+ * Email the failed or blocked import (never throws - the import error is what matters).
+ * The cron retries every 15 minutes, so one email per snapshot date per alert cooldown.
+ */
+async function notifySyncFailed(supabase, snapshotDate, playerCount, errorMsg, qualityCheck = undefined) {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+  const notificationEmail = Deno.env.get('NOTIFICATION_EMAIL');
+  if (!resendApiKey || !notificationEmail) {
+    console.warn('Sync failed email not sent: missing RESEND_API_KEY or NOTIFICATION_EMAIL');
+    return;
+  }
+  try {
+    const { data: recent } = await supabase
+      .from('email_log')
+      .select('id')
+      .eq('email_type', 'sync_failed')
+      .eq('related_snapshot_date', snapshotDate)
+      .eq('success', true)
+      .gte('sent_at', new Date(Date.now() - DERIVED_CONSTANTS.ALERT_COOLDOWN_MS).toISOString())
+      .limit(1);
+    if (recent && recent.length > 0) {
+      console.log('Sync failed email already sent recently, skipping');
+      return;
+    }
+    const emailData = createSyncFailedEmail(notificationEmail, snapshotDate, playerCount, errorMsg, qualityCheck);
+    const emailResult = await sendEmail(emailData, resendApiKey);
+    await logEmail(supabase, emailData, emailResult);
+  } catch (emailError) {
+    console.error('Error sending sync failed email:', emailError);
   }
 }
 Deno.serve(async (req)=>{
@@ -120,6 +117,8 @@ Deno.serve(async (req)=>{
       }
     });
   }
+  // Set once the caller is authenticated, for audit logging of manual runs
+  let audit = null;
   try {
     // Parse request body
     const body: UpdatePlayerDataRequest = await req.json();
@@ -127,17 +126,21 @@ Deno.serve(async (req)=>{
     // Check if this is an internal call from another edge function
     const isInternalCall = body.internalCall === true && req.headers.get('x-internal-call') === 'true';
     
-    // Authentication: Always require either secret token OR service role key
+    // Authentication: Always require secret token, service role key OR admin JWT
     const secretToken = req.headers.get('x-secret-token');
     const authHeader = req.headers.get('Authorization');
     const expectedToken = Deno.env.get('SECRET_TOKEN');
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     
     let isAuthenticated = false;
+    let performedBy = 'service_role';
+    let authMethod = 'service_role';
     
     // Check for secret token (external calls)
     if (secretToken && secretToken === expectedToken) {
       isAuthenticated = true;
+      performedBy = 'secret_token';
+      authMethod = 'secret_token';
       console.log('Authenticated via secret token');
     }
     // Check for service role key (internal calls from other edge functions)
@@ -146,6 +149,16 @@ Deno.serve(async (req)=>{
       if (providedKey === serviceRoleKey) {
         isAuthenticated = true;
         console.log('Authenticated via service role key');
+      } else {
+        // Admin JWT (manual runs from the admin snapshot console)
+        const jwtSecret = Deno.env.get('JWT_SECRET');
+        const jwtPayload = jwtSecret ? await verifyJWT(authHeader, jwtSecret) : null;
+        if (jwtPayload && isAdmin(jwtPayload) && !(jwtPayload.exp && jwtPayload.exp < Date.now() / 1000)) {
+          isAuthenticated = true;
+          performedBy = jwtPayload.discord_id;
+          authMethod = 'admin_jwt';
+          console.log(`Authenticated admin user: ${jwtPayload.discord_id}`);
+        }
       }
     }
     
@@ -153,7 +166,7 @@ Deno.serve(async (req)=>{
       console.log('Authentication failed - no valid credentials provided');
       return new Response(JSON.stringify({
         success: false,
-        error: 'Unauthorized: Invalid or missing credentials. Provide either x-secret-token or valid service role key in Authorization header.'
+        error: 'Unauthorized: Invalid or missing credentials. Provide either x-secret-token, a valid service role key or an admin JWT in Authorization header.'
       }), {
         status: 401,
         headers: {
@@ -179,20 +192,29 @@ Deno.serve(async (req)=>{
     // Create Supabase client with service role for admin access
     const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
 
+    // Manual/forced runs are audited; the cron's internal calls are not
+    if (!isInternalCall) {
+      audit = {
+        supabase,
+        performedBy,
+        authMethod,
+        parameters: { dryRun, forceUpdate, sendEmail: sendEmailFlag, snapshotDate: body.snapshotDate ?? null },
+      };
+    }
+
     let players: BotApiPlayer[];
+    let rowErrors = [];
+    let source = 'internal_call';
     
     // Get player data - either from request body (internal call) or fetch from API
     if (isInternalCall && body.players) {
       console.log('Using player data from internal call...');
-      players = body.players;
+      ({ players, rowErrors } = parseBotApiResponse(body.players));
     } else {
-      console.log('Fetching player data from bot API...');
-      const botResponse = await fetch(Deno.env.get('WONKY_ENDPOINT_URL'));
-      if (!botResponse.ok) {
-        throw new Error(`Bot API returned ${botResponse.status}: ${botResponse.statusText}`);
-      }
-      players = await botResponse.json();
+      ({ players, rowErrors, source } = await loadPlayers());
     }
+    // Rows the cron already quarantined + anything invalid found here
+    const quarantinedRows = (body.quarantinedRows || 0) + rowErrors.length;
     
     console.log(`Received ${players.length} player records`);
     if (!Array.isArray(players) || players.length === 0) {
@@ -211,17 +233,37 @@ Deno.serve(async (req)=>{
     const snapshotDate = body.snapshotDate || new Date().toISOString().split('T')[0];
     console.log(`Snapshot date: ${snapshotDate}`);
     
+    // Invalid rows are never saved; keep them for inspection (not on dry runs)
+    if (!dryRun) {
+      await quarantinePlayerRows(supabase, rowErrors, { source, caller: 'update-player-data', snapshotDate });
+    }
+    
+    // Transform players
+    const playerSnapshots = players.map((player)=>transformPlayer(player, snapshotDate));
+    // Compare with the previous snapshot before writing anything
+    const qualityCheck = await checkSnapshotQuality(supabase, snapshotDate, playerSnapshots);
+    
     // DRY RUN: Skip database operations
     if (dryRun) {
       console.log('Dry run completed - no data saved');
+      if (audit) {
+        await writeAuditLog(audit.supabase, {
+          action: 'update_player_data',
+          performedBy: audit.performedBy,
+          authMethod: audit.authMethod,
+          parameters: audit.parameters,
+          result: { dryRun: true, snapshotDate, playerCount: players.length, quarantinedRows, anomalousPlayers: qualityCheck.anomalousPlayers },
+        });
+      }
       return new Response(JSON.stringify({
         success: true,
         dryRun: true,
         snapshotDate,
         playerCount: players.length,
-        snapshots: { inserted: 0, errors: 0 },
-        eggdayGains: { inserted: 0, errors: 0 },
-        errors: [],
+        snapshots: { inserted: 0 },
+        eggdayGains: { inserted: 0 },
+        quarantinedRows,
+        qualityCheck,
         refreshMaterializedViewsResponse: 'Skipped (dry run)',
         message: 'Dry run mode - no data was saved to database'
       }), {
@@ -232,44 +274,61 @@ Deno.serve(async (req)=>{
       });
     }
     
-    // Transform players
-    const playerSnapshots = players.map((player)=>transformPlayer(player, snapshotDate));
+    // Too many implausible changes - likely a bot glitch, don't save (forceUpdate overrides)
+    if (qualityCheck.blocked && !forceUpdate) {
+      const errorMsg = `Snapshot blocked by data quality checks: ${qualityCheck.anomalousPlayers} of ${qualityCheck.playersCompared} players (${(qualityCheck.anomalousFraction * 100).toFixed(1)}%) changed implausibly since ${qualityCheck.previousSnapshotDate} (limit ${(qualityCheck.blockFraction * 100).toFixed(1)}%). Use forceUpdate to save anyway.`;
+      console.error(errorMsg);
+      if (sendEmailFlag) {
+        await notifySyncFailed(supabase, snapshotDate, players.length, errorMsg, qualityCheck);
+      }
+      if (audit) {
+        await writeAuditLog(audit.supabase, {
+          action: 'update_player_data',
+          performedBy: audit.performedBy,
+          authMethod: audit.authMethod,
+          parameters: audit.parameters,
+          result: { error: errorMsg, snapshotDate, anomalousPlayers: qualityCheck.anomalousPlayers },
+          success: false,
+        });
+      }
+      return new Response(JSON.stringify({
+        success: false,
+        error: errorMsg,
+        snapshotDate,
+        playerCount: players.length,
+        quarantinedRows,
+        qualityCheck
+      }), {
+        status: 422,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
     // Extract eggday gains
     const allEggdayGains = [];
     players.forEach((player)=>{
       const eggdayGains = extractEggdayGains(player);
       allEggdayGains.push(...eggdayGains);
     });
-    console.log(`Upserting ${playerSnapshots.length} player snapshots...`);
-    const snapshotResult = await batchUpsert(supabase, 'player_snapshots', playerSnapshots, [
-      'snapshot_date',
-      'discord_id'
-    ]);
-    let eggdayResult = {
-      successCount: 0,
-      errorCount: 0,
-      errors: []
-    };
-    if (allEggdayGains.length > 0) {
-      console.log(`Upserting ${allEggdayGains.length} eggday gains...`);
-      eggdayResult = await batchUpsert(supabase, 'eggday_gains', allEggdayGains, [
-        'discord_id',
-        'year'
-      ]);
+    console.log(`Importing ${playerSnapshots.length} player snapshots and ${allEggdayGains.length} eggday gains...`);
+    let importResult;
+    try {
+      importResult = await importSnapshot(supabase, snapshotDate, playerSnapshots, allEggdayGains);
+    } catch (importError) {
+      const errorMsg = importError instanceof Error ? importError.message : String(importError);
+      console.error(errorMsg);
+      if (sendEmailFlag) {
+        await notifySyncFailed(supabase, snapshotDate, players.length, errorMsg);
+      }
+      throw importError;
     }
-    // Insert snapshot metadata
-    const metadata = {
-      snapshot_date: snapshotDate,
-      record_count: players.length,
-      imported_at: new Date().toISOString()
-    };
-    const { error: metaError } = await supabase.from('snapshot_metadata').upsert([
-      metadata
-    ], {
-      onConflict: 'snapshot_date'
-    });
-    if (metaError) {
-      console.error('Metadata insert failed:', metaError.message);
+    console.log(`Imported ${importResult.snapshotsInserted} player snapshots, ${importResult.eggdayInserted} eggday gains`);
+    await flagSnapshotAnomalies(supabase, snapshotDate);
+    // Record name changes (internal calls come from the cron, which already recorded them)
+    if (!isInternalCall) {
+      await recordPlayerNames(supabase, players, new Date(`${snapshotDate}T00:00:00Z`));
     }
     // Refresh all materialized views after data is loaded
     const refreshMaterializedViewsResponse = await refreshMaterializedViews(supabase);
@@ -279,18 +338,15 @@ Deno.serve(async (req)=>{
       success: true,
       snapshotDate,
       playerCount: players.length,
+      // All-or-nothing import: a failure throws before this point
       snapshots: {
-        inserted: snapshotResult.successCount,
-        errors: snapshotResult.errorCount
+        inserted: importResult.snapshotsInserted
       },
       eggdayGains: {
-        inserted: eggdayResult.successCount,
-        errors: eggdayResult.errorCount
+        inserted: importResult.eggdayInserted
       },
-      errors: [
-        ...snapshotResult.errors,
-        ...eggdayResult.errors
-      ],
+      quarantinedRows,
+      qualityCheck,
       refreshMaterializedViewsResponse
     };
     
@@ -327,11 +383,11 @@ Deno.serve(async (req)=>{
                 players.length,
                 decision as SnapshotDecision,
                 {
-                  snapshotsInserted: snapshotResult.successCount,
-                  snapshotsErrors: snapshotResult.errorCount,
-                  eggdayInserted: eggdayResult.successCount,
-                  eggdayErrors: eggdayResult.errorCount,
-                }
+                  snapshotsInserted: importResult.snapshotsInserted,
+                  eggdayInserted: importResult.eggdayInserted,
+                  quarantinedRows,
+                },
+                qualityCheck
               )
             : createSnapshotSavedEmail(
                 notificationEmail,
@@ -339,11 +395,11 @@ Deno.serve(async (req)=>{
                 players.length,
                 decision as SnapshotDecision,
                 {
-                  snapshotsInserted: snapshotResult.successCount,
-                  snapshotsErrors: snapshotResult.errorCount,
-                  eggdayInserted: eggdayResult.successCount,
-                  eggdayErrors: eggdayResult.errorCount,
-                }
+                  snapshotsInserted: importResult.snapshotsInserted,
+                  eggdayInserted: importResult.eggdayInserted,
+                  quarantinedRows,
+                },
+                qualityCheck
               );
           
           const emailResult = await sendEmail(emailData, resendApiKey);
@@ -366,6 +422,24 @@ Deno.serve(async (req)=>{
       }
     }
     
+    if (audit) {
+      await writeAuditLog(audit.supabase, {
+        action: 'update_player_data',
+        performedBy: audit.performedBy,
+        authMethod: audit.authMethod,
+        parameters: audit.parameters,
+        result: {
+          snapshotDate,
+          playerCount: players.length,
+          snapshots: response.snapshots,
+          eggdayGains: response.eggdayGains,
+          quarantinedRows,
+          anomalousPlayers: qualityCheck.anomalousPlayers,
+          emailSent: response.emailSent ?? false,
+        },
+      });
+    }
+    
     console.log('Update complete:', response);
     return new Response(JSON.stringify(response), {
       headers: {
@@ -376,6 +450,16 @@ Deno.serve(async (req)=>{
   } catch (error) {
     console.error('Error in update-player-data:', error);
     const errorMsg = error instanceof Error ? error.message : String(error);
+    if (audit) {
+      await writeAuditLog(audit.supabase, {
+        action: 'update_player_data',
+        performedBy: audit.performedBy,
+        authMethod: audit.authMethod,
+        parameters: audit.parameters,
+        result: { error: errorMsg },
+        success: false,
+      });
+    }
     return new Response(JSON.stringify({
       success: false,
       error: errorMsg
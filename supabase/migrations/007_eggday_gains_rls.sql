@@ -0,0 +1,54 @@
+-- ============================================================================
+-- Egg Day Gains RLS Policies
+-- ============================================================================
+--
+-- PURPOSE:
+-- eggday_gains is written by update-player-data (service role) with one row
+-- per player per Egg Day year. The dashboard reads it directly for a player's
+-- own year-over-year history, so it gets the same policies as player_snapshots:
+-- - Users can only see their own rows
+-- - Admins can see every row
+--
+-- The community Egg Day leaderboard is served by the get-eggday-leaderboard
+-- edge function, which uses the service role and hides prestiges from
+-- non-admins.
+--
+-- ============================================================================
+
+ALTER TABLE eggday_gains ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own eggday gains" ON eggday_gains;
+DROP POLICY IF EXISTS "Admins can view all eggday gains" ON eggday_gains;
+
+CREATE POLICY "Users can view their own eggday gains"
+ON eggday_gains
+FOR SELECT
+TO authenticated
+USING (
+  discord_id = (auth.jwt() ->> 'discord_id')
+);
+
+CREATE POLICY "Admins can view all eggday gains"
+ON eggday_gains
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- Indexes for Performance
+-- ============================================================================
+
+-- Leaderboard queries filter by year
+CREATE INDEX IF NOT EXISTS idx_eggday_gains_year
+ON eggday_gains(year DESC);
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Players with Egg Day data per year:
+-- SELECT year, COUNT(*) FROM eggday_gains GROUP BY year ORDER BY year DESC;
+--
+-- ============================================================================
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Leaderboard Cache: Saturday Gains and Max Mystical Eggs
+-- ============================================================================
+--
+-- PURPOSE:
+-- player_snapshots already stores gains_saturday and max_mystical_eggs from
+-- the Bot API (see transformPlayer in update-player-data). This adds the same
+-- columns to leaderboard_cache so current stats and the live leaderboard can
+-- show them too.
+--
+-- Both columns are nullable: the Bot API omits them for some players, and
+-- rows written before this migration stay NULL until the next cache refresh.
+--
+-- ============================================================================
+
+ALTER TABLE leaderboard_cache
+  ADD COLUMN IF NOT EXISTS gains_saturday NUMERIC,
+  ADD COLUMN IF NOT EXISTS max_mystical_eggs NUMERIC;
+
+-- Force a refresh on the next request so the new columns get populated
+UPDATE leaderboard_cache_metadata SET last_updated = NOW() - INTERVAL '1 hour';
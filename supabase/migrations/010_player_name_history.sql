@@ -0,0 +1,180 @@
+-- ============================================================================
+-- Player Name History
+-- ============================================================================
+--
+-- PURPOSE:
+-- Keeps every IGN, display name and Discord name a player has been seen with,
+-- including names that changed between saved snapshots. One row per stint:
+-- each time a player switches to a name (including back to an earlier one)
+-- a new row starts, with the first and last time it was seen in that stint.
+--
+-- POPULATED BY:
+-- - refresh-leaderboard-cron (every run, from the bot API data)
+-- - update-player-data (external/manual imports)
+-- Both call record_player_names() via _shared/name-history.ts.
+--
+-- SECURITY:
+-- - Users can view their own name history
+-- - Admins can view all name history (Player Lookup, search by old name)
+-- - Only the service role can write (record_player_names is not granted to clients)
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS player_name_history (
+  id BIGSERIAL PRIMARY KEY,
+  discord_id TEXT NOT NULL,
+  name_type TEXT NOT NULL CHECK (name_type IN ('ign', 'display_name', 'discord_name')),
+  name TEXT NOT NULL,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (discord_id, name_type, first_seen_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_name_history_discord_id
+ON player_name_history(discord_id, first_seen_at DESC);
+
+-- Case-insensitive lookups when searching by an old name
+CREATE INDEX IF NOT EXISTS idx_player_name_history_name_lower
+ON player_name_history(LOWER(name));
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE player_name_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own name history" ON player_name_history;
+DROP POLICY IF EXISTS "Admins can view all name history" ON player_name_history;
+
+CREATE POLICY "Users can view their own name history"
+ON player_name_history
+FOR SELECT
+TO authenticated
+USING (
+  discord_id = (auth.jwt() ->> 'discord_id')
+);
+
+CREATE POLICY "Admins can view all name history"
+ON player_name_history
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- record_player_names(p_names JSONB, p_seen_at TIMESTAMPTZ)
+-- ============================================================================
+-- p_names is an array of {"discord_id", "name_type", "name"} objects.
+-- Each name is placed against the stint that was current at p_seen_at:
+-- - Same name as that stint: its last_seen_at moves forward
+-- - Same name as the next stint (an older import): that stint starts earlier
+-- - Otherwise a new stint starts with first_seen_at = last_seen_at = p_seen_at
+-- Empty names are ignored.
+-- Returns the number of new stints (first-seen names and name changes).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION record_player_names(p_names JSONB, p_seen_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_new_count INTEGER;
+BEGIN
+  WITH incoming AS (
+    SELECT DISTINCT ON (n.discord_id, n.name_type) n.discord_id, n.name_type, n.name
+    FROM jsonb_to_recordset(p_names) AS n(discord_id TEXT, name_type TEXT, name TEXT)
+    WHERE n.name IS NOT NULL AND BTRIM(n.name) <> ''
+    ORDER BY n.discord_id, n.name_type, n.name
+  ),
+  placed AS (
+    SELECT i.discord_id, i.name_type, i.name,
+           prev.id AS prev_id, prev.name AS prev_name,
+           nxt.id AS next_id, nxt.name AS next_name
+    FROM incoming i
+    LEFT JOIN LATERAL (
+      SELECT h.id, h.name
+      FROM player_name_history h
+      WHERE h.discord_id = i.discord_id
+        AND h.name_type = i.name_type
+        AND h.first_seen_at <= p_seen_at
+      ORDER BY h.first_seen_at DESC
+      LIMIT 1
+    ) prev ON TRUE
+    LEFT JOIN LATERAL (
+      SELECT h.id, h.name
+      FROM player_name_history h
+      WHERE h.discord_id = i.discord_id
+        AND h.name_type = i.name_type
+        AND h.first_seen_at > p_seen_at
+      ORDER BY h.first_seen_at ASC
+      LIMIT 1
+    ) nxt ON TRUE
+  ),
+  extended AS (
+    UPDATE player_name_history h
+    SET last_seen_at = GREATEST(h.last_seen_at, p_seen_at)
+    FROM placed p
+    WHERE h.id = p.prev_id AND p.prev_name = p.name
+    RETURNING h.id
+  ),
+  moved_back AS (
+    UPDATE player_name_history h
+    SET first_seen_at = p_seen_at
+    FROM placed p
+    WHERE h.id = p.next_id
+      AND p.next_name = p.name
+      AND p.prev_name IS DISTINCT FROM p.name
+    RETURNING h.id
+  ),
+  inserted AS (
+    INSERT INTO player_name_history (discord_id, name_type, name, first_seen_at, last_seen_at)
+    SELECT p.discord_id, p.name_type, p.name, p_seen_at, p_seen_at
+    FROM placed p
+    WHERE p.prev_name IS DISTINCT FROM p.name
+      AND p.next_name IS DISTINCT FROM p.name
+    ON CONFLICT (discord_id, name_type, first_seen_at) DO NOTHING
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO v_new_count FROM inserted;
+
+  RETURN v_new_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_player_names(JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_player_names(JSONB, TIMESTAMPTZ) TO service_role;
+
+-- ============================================================================
+-- Backfill from saved snapshots
+-- ============================================================================
+-- Consecutive snapshots with the same name form one stint (gaps and islands:
+-- the difference of the two row numbers is constant within a stint).
+INSERT INTO player_name_history (discord_id, name_type, name, first_seen_at, last_seen_at)
+SELECT discord_id, name_type, name, MIN(snapshot_date)::TIMESTAMPTZ, MAX(snapshot_date)::TIMESTAMPTZ
+FROM (
+  SELECT
+    discord_id, name_type, name, snapshot_date,
+    ROW_NUMBER() OVER (PARTITION BY discord_id, name_type ORDER BY snapshot_date)
+      - ROW_NUMBER() OVER (PARTITION BY discord_id, name_type, name ORDER BY snapshot_date) AS stint
+  FROM (
+    SELECT discord_id, 'ign' AS name_type, ign AS name, snapshot_date FROM player_snapshots
+    UNION ALL
+    SELECT discord_id, 'display_name', display_name, snapshot_date FROM player_snapshots
+    UNION ALL
+    SELECT discord_id, 'discord_name', discord_name, snapshot_date FROM player_snapshots
+  ) names
+  WHERE name IS NOT NULL AND BTRIM(name) <> ''
+) stints
+GROUP BY discord_id, name_type, name, stint
+ON CONFLICT (discord_id, name_type, first_seen_at) DO NOTHING;
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Players who changed IGN (each stint after the first is a change):
+-- SELECT discord_id, COUNT(*) FROM player_name_history
+-- WHERE name_type = 'ign' GROUP BY discord_id HAVING COUNT(*) > 1;
+--
+-- Who used a name before:
+-- SELECT * FROM player_name_history WHERE LOWER(name) = LOWER('SomeName');
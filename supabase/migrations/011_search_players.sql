@@ -0,0 +1,199 @@
+-- ============================================================================
+-- Player Search
+-- ============================================================================
+--
+-- PURPOSE:
+-- Server-side, typo-tolerant player search for PlayerSearch so admins don't
+-- have to download the whole roster (unique_players_latest) on page load.
+--
+-- search_players() matches the query against:
+-- - Current IGN, display name and Discord name (leaderboard_cache)
+-- - Every historic name (player_name_history, see 010_player_name_history.sql)
+-- - An exact Discord ID
+-- using pg_trgm similarity, and returns the best matches with grade and
+-- Discord avatar.
+--
+-- AVATARS:
+-- player_profiles stores the Discord avatar hash of each player who has
+-- logged in. discord-auth upserts it on every login (service role).
+--
+-- SECURITY:
+-- - search_players is SECURITY DEFINER and admin-only (same audience as the
+--   Player Lookup / Player Comparison pages)
+-- - player_profiles: users can read their own row, admins can read all rows
+--
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================================================
+-- Player profiles (Discord avatar)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS player_profiles (
+  discord_id TEXT PRIMARY KEY,
+  avatar TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE player_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own profile" ON player_profiles;
+DROP POLICY IF EXISTS "Admins can view all profiles" ON player_profiles;
+
+CREATE POLICY "Users can view their own profile"
+ON player_profiles
+FOR SELECT
+TO authenticated
+USING (
+  discord_id = (auth.jwt() ->> 'discord_id')
+);
+
+CREATE POLICY "Admins can view all profiles"
+ON player_profiles
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- Trigram indexes
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_leaderboard_cache_ign_trgm
+ON leaderboard_cache USING GIN (LOWER(ign) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_cache_display_name_trgm
+ON leaderboard_cache USING GIN (LOWER(display_name) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_cache_discord_name_trgm
+ON leaderboard_cache USING GIN (LOWER(discord_name) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_player_name_history_name_trgm
+ON player_name_history USING GIN (LOWER(name) gin_trgm_ops);
+
+-- ============================================================================
+-- search_players(p_query TEXT, p_limit INTEGER)
+-- ============================================================================
+-- Candidates are names containing the query (LIKE) or matching it with
+-- pg_trgm word similarity >= 0.3 (<%), plus an exact Discord ID. Both name
+-- predicates are served by the trigram indexes above.
+--
+-- Scoring per candidate name (highest wins per player):
+-- - 1.0  exact Discord ID or exact name (case-insensitive)
+-- - 0.9  name starts with the query
+-- - 0.8  name contains the query
+-- - otherwise pg_trgm word_similarity()
+-- Current names get a small boost over historic ones so a player's current
+-- name wins ties. Players no longer in leaderboard_cache are returned with
+-- their latest saved snapshot's names and grade.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION search_players(p_query TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  discord_id TEXT,
+  ign TEXT,
+  display_name TEXT,
+  discord_name TEXT,
+  grade TEXT,
+  avatar TEXT,
+  matched_name TEXT,
+  is_current_name BOOLEAN,
+  score REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.3
+AS $$
+DECLARE
+  v_query TEXT := LOWER(BTRIM(COALESCE(p_query, '')));
+  v_pattern TEXT := '%' || LOWER(BTRIM(COALESCE(p_query, ''))) || '%';
+BEGIN
+  IF (auth.jwt() ->> 'access_level') IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Forbidden: only admins can search players'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF LENGTH(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT lc.discord_id, lc.ign AS name, TRUE AS is_current
+    FROM leaderboard_cache lc
+    WHERE lc.discord_id = v_query
+    UNION ALL
+    SELECT lc.discord_id, lc.ign, TRUE
+    FROM leaderboard_cache lc
+    WHERE LOWER(lc.ign) LIKE v_pattern OR v_query <% LOWER(lc.ign)
+    UNION ALL
+    SELECT lc.discord_id, lc.display_name, TRUE
+    FROM leaderboard_cache lc
+    WHERE LOWER(lc.display_name) LIKE v_pattern OR v_query <% LOWER(lc.display_name)
+    UNION ALL
+    SELECT lc.discord_id, lc.discord_name, TRUE
+    FROM leaderboard_cache lc
+    WHERE LOWER(lc.discord_name) LIKE v_pattern OR v_query <% LOWER(lc.discord_name)
+    UNION ALL
+    SELECT h.discord_id, h.name, FALSE
+    FROM player_name_history h
+    WHERE LOWER(h.name) LIKE v_pattern OR v_query <% LOWER(h.name)
+  ),
+  scored AS (
+    SELECT
+      c.discord_id,
+      c.name,
+      c.is_current,
+      (CASE
+        WHEN c.discord_id = v_query OR LOWER(c.name) = v_query THEN 1.0
+        WHEN LOWER(c.name) LIKE v_query || '%' THEN 0.9
+        WHEN LOWER(c.name) LIKE v_pattern THEN 0.8
+        ELSE word_similarity(v_query, LOWER(c.name))
+      END + CASE WHEN c.is_current THEN 0.01 ELSE 0 END)::REAL AS score
+    FROM candidates c
+  ),
+  best AS (
+    SELECT DISTINCT ON (s.discord_id) s.discord_id, s.name, s.is_current, s.score
+    FROM scored s
+    ORDER BY s.discord_id, s.score DESC
+  )
+  SELECT
+    b.discord_id,
+    COALESCE(lc.ign, ps.ign),
+    COALESCE(lc.display_name, ps.display_name),
+    COALESCE(lc.discord_name, ps.discord_name),
+    UPPER(COALESCE(lc.grade, ps.grade)),
+    pp.avatar,
+    b.name,
+    b.is_current,
+    b.score
+  FROM best b
+  LEFT JOIN leaderboard_cache lc ON lc.discord_id = b.discord_id
+  LEFT JOIN player_profiles pp ON pp.discord_id = b.discord_id
+  LEFT JOIN LATERAL (
+    SELECT p.ign, p.display_name, p.discord_name, p.grade
+    FROM player_snapshots p
+    WHERE p.discord_id = b.discord_id
+    ORDER BY p.snapshot_date DESC
+    LIMIT 1
+  ) ps ON lc.discord_id IS NULL
+  ORDER BY b.score DESC, COALESCE(lc.ign, ps.ign)
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+END;
+$$;
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Try a search as an admin (in the SQL editor auth.jwt() is empty, so test
+-- the inner query or call it through the API with an admin JWT):
+-- SELECT * FROM search_players('eggy', 10);
+--
+-- Check the trigram indexes are used (run as a superuser in the SQL editor):
+-- EXPLAIN SELECT discord_id FROM player_name_history
+-- WHERE LOWER(name) LIKE '%eggy%' OR 'eggy' <% LOWER(name);
+--
+-- Players with a stored avatar:
+-- SELECT COUNT(*) FROM player_profiles WHERE avatar IS NOT NULL;
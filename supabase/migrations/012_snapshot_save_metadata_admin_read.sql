@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Snapshot Save Metadata: Admin Read Access
+-- ============================================================================
+--
+-- PURPOSE:
+-- The admin snapshot console (/admin/snapshots) shows the last snapshot
+-- decision (sync %, missing players, pending sync state). snapshot_save_metadata
+-- was service-role only (see 005_snapshot_save_metadata.sql); this lets admins
+-- read it. Writes stay service-role only.
+--
+-- SECURITY:
+-- - RLS enabled, SELECT only, admins only
+-- - Regular users and anon still have no access
+--
+-- ============================================================================
+
+ALTER TABLE snapshot_save_metadata ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON snapshot_save_metadata TO authenticated;
+
+DROP POLICY IF EXISTS "Admins can view snapshot save metadata" ON snapshot_save_metadata;
+
+CREATE POLICY "Admins can view snapshot save metadata"
+ON snapshot_save_metadata
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
@@ -0,0 +1,138 @@
+-- ============================================================================
+-- Admin Audit Log
+-- ============================================================================
+--
+-- PURPOSE:
+-- Permanent record of admin actions (who did what, with which parameters and
+-- what happened). Previously delete-snapshot only console.logged its audit
+-- object, which disappeared with the function logs.
+--
+-- WRITTEN BY:
+-- - delete-snapshot (every deletion attempt)
+-- - update-player-data (manual/forced runs - not the cron's internal calls)
+-- - excluded_players changes (trigger below, covers SQL editor changes too)
+-- - Any future admin action via _shared/audit-log.ts
+--
+-- COLUMNS:
+-- - action: what was done, e.g. 'delete_snapshot', 'update_player_data',
+--   'exclude_player', 'update_excluded_player', 'unexclude_player'
+-- - performed_by: admin discord_id, 'secret_token', 'service_role' or the
+--   database user for direct SQL changes
+-- - auth_method: 'admin_jwt', 'secret_token', 'service_role' or 'database'
+-- - parameters: request parameters (JSONB)
+-- - result: outcome details (JSONB), including the error on failure
+--
+-- SECURITY:
+-- - Admins can read the log, nobody can write it from the client
+-- - Edge functions write with the service role key
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  action TEXT NOT NULL,
+  performed_by TEXT NOT NULL,
+  auth_method TEXT NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '{}'::JSONB,
+  result JSONB,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at
+ON admin_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action
+ON admin_audit_log(action, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_performed_by
+ON admin_audit_log(performed_by, created_at DESC);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON admin_audit_log FROM anon, authenticated;
+GRANT SELECT ON admin_audit_log TO authenticated;
+
+DROP POLICY IF EXISTS "Admins can view audit log" ON admin_audit_log;
+
+CREATE POLICY "Admins can view audit log"
+ON admin_audit_log
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- Audit trigger for excluded_players
+-- ============================================================================
+-- performed_by comes from the JWT when the change is made through the API
+-- (admin discord_id, or 'service_role'), otherwise the database user.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION audit_excluded_players_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claims JSONB := NULLIF(current_setting('request.jwt.claims', TRUE), '')::JSONB;
+  v_performed_by TEXT;
+  v_auth_method TEXT;
+  v_action TEXT;
+BEGIN
+  IF v_claims ->> 'discord_id' IS NOT NULL THEN
+    v_performed_by := v_claims ->> 'discord_id';
+    v_auth_method := 'admin_jwt';
+  ELSIF v_claims ->> 'role' = 'service_role' THEN
+    v_performed_by := 'service_role';
+    v_auth_method := 'service_role';
+  ELSE
+    v_performed_by := session_user;
+    v_auth_method := 'database';
+  END IF;
+
+  v_action := CASE TG_OP
+    WHEN 'INSERT' THEN 'exclude_player'
+    WHEN 'UPDATE' THEN 'update_excluded_player'
+    ELSE 'unexclude_player'
+  END;
+
+  INSERT INTO admin_audit_log (action, performed_by, auth_method, parameters, result)
+  VALUES (
+    v_action,
+    v_performed_by,
+    v_auth_method,
+    jsonb_build_object('discord_id', COALESCE(NEW.discord_id, OLD.discord_id)),
+    jsonb_build_object(
+      'before', CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+      'after', CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+    )
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_excluded_players_change ON excluded_players;
+CREATE TRIGGER audit_excluded_players_change
+  AFTER INSERT OR UPDATE OR DELETE ON excluded_players
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_excluded_players_change();
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Recent admin actions:
+--   SELECT created_at, action, performed_by, success, parameters
+--   FROM admin_audit_log ORDER BY created_at DESC LIMIT 50;
+--
+-- Who deleted a snapshot:
+--   SELECT * FROM admin_audit_log
+--   WHERE action = 'delete_snapshot' AND parameters ->> 'snapshot_date' = '2025-01-01';
+--
+-- ============================================================================
@@ -0,0 +1,237 @@
+-- ============================================================================
+-- Snapshot Archive (Soft Delete and Restore)
+-- ============================================================================
+--
+-- PURPOSE:
+-- delete-snapshot used to hard-delete a snapshot date, so a mistaken call was
+-- unrecoverable. Deleting now moves the rows into archive tables instead:
+-- - player_snapshots      -> player_snapshots_archive
+-- - snapshot_metadata     -> snapshot_metadata_archive
+-- Archived snapshots can be restored with the restore-snapshot edge function
+-- until their purge_after time, after which refresh-leaderboard-cron removes
+-- them for good (retention: SNAPSHOT_CONFIG.ARCHIVE_RETENTION_DAYS).
+--
+-- Both directions are single SQL functions, so moving a snapshot is atomic.
+-- The edge functions refresh the materialized views (weekly_statistics,
+-- unique_players_latest) afterwards via refresh_materialized_views().
+--
+-- SECURITY:
+-- - Archive/restore/purge functions are service role only
+-- - Admins can read the archive tables (admin snapshot console)
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS player_snapshots_archive (
+  LIKE player_snapshots INCLUDING DEFAULTS,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (snapshot_date, discord_id)
+);
+
+CREATE TABLE IF NOT EXISTS snapshot_metadata_archive (
+  snapshot_date DATE PRIMARY KEY,
+  record_count INTEGER NOT NULL,
+  imported_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  archived_by TEXT NOT NULL,
+  purge_after TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_metadata_archive_purge_after
+ON snapshot_metadata_archive(purge_after);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE player_snapshots_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE snapshot_metadata_archive ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON player_snapshots_archive FROM anon, authenticated;
+REVOKE ALL ON snapshot_metadata_archive FROM anon, authenticated;
+GRANT SELECT ON player_snapshots_archive TO authenticated;
+GRANT SELECT ON snapshot_metadata_archive TO authenticated;
+
+DROP POLICY IF EXISTS "Admins can view archived snapshots" ON player_snapshots_archive;
+DROP POLICY IF EXISTS "Admins can view archived snapshot metadata" ON snapshot_metadata_archive;
+
+CREATE POLICY "Admins can view archived snapshots"
+ON player_snapshots_archive
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+CREATE POLICY "Admins can view archived snapshot metadata"
+ON snapshot_metadata_archive
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- player_snapshot_archive_columns()
+-- ============================================================================
+-- Quoted, comma-separated list of the columns player_snapshots and
+-- player_snapshots_archive have in common. Archive and restore copy rows by
+-- name with this list, so a column added to player_snapshots later can't
+-- shift data into the wrong archive column (archive-only columns such as
+-- archived_at are left out).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION player_snapshot_archive_columns()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT string_agg(quote_ident(live.column_name), ', ' ORDER BY live.ordinal_position)
+  FROM information_schema.columns live
+  JOIN information_schema.columns archive
+    ON archive.table_schema = live.table_schema
+   AND archive.table_name = 'player_snapshots_archive'
+   AND archive.column_name = live.column_name
+  WHERE live.table_schema = 'public' AND live.table_name = 'player_snapshots';
+$$;
+
+-- ============================================================================
+-- archive_snapshot(p_snapshot_date, p_archived_by, p_retention_days)
+-- ============================================================================
+-- Moves a snapshot date into the archive. Returns the number of player rows
+-- archived. Re-archiving a date replaces the previous archive of that date.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION archive_snapshot(
+  p_snapshot_date DATE,
+  p_archived_by TEXT,
+  p_retention_days INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM player_snapshots_archive WHERE snapshot_date = p_snapshot_date;
+  DELETE FROM snapshot_metadata_archive WHERE snapshot_date = p_snapshot_date;
+
+  EXECUTE format(
+    'INSERT INTO player_snapshots_archive (%1$s, archived_at) SELECT %1$s, NOW() FROM player_snapshots WHERE snapshot_date = $1',
+    player_snapshot_archive_columns()
+  ) USING p_snapshot_date;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO snapshot_metadata_archive (snapshot_date, record_count, imported_at, archived_by, purge_after)
+  SELECT
+    p_snapshot_date,
+    COALESCE(sm.record_count, v_count),
+    sm.imported_at,
+    p_archived_by,
+    NOW() + MAKE_INTERVAL(days => p_retention_days)
+  FROM (SELECT 1) one
+  LEFT JOIN snapshot_metadata sm ON sm.snapshot_date = p_snapshot_date
+  WHERE v_count > 0 OR sm.snapshot_date IS NOT NULL;
+
+  DELETE FROM player_snapshots WHERE snapshot_date = p_snapshot_date;
+  DELETE FROM snapshot_metadata WHERE snapshot_date = p_snapshot_date;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ============================================================================
+-- restore_snapshot(p_snapshot_date)
+-- ============================================================================
+-- Moves an archived snapshot back. Fails if the date has no archive or if a
+-- live snapshot already exists for that date (it would be overwritten).
+-- Returns the number of player rows restored.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION restore_snapshot(p_snapshot_date DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM snapshot_metadata_archive WHERE snapshot_date = p_snapshot_date) THEN
+    RAISE EXCEPTION 'No archived snapshot for %', p_snapshot_date
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM player_snapshots WHERE snapshot_date = p_snapshot_date) THEN
+    RAISE EXCEPTION 'A snapshot already exists for %; delete it before restoring', p_snapshot_date
+      USING ERRCODE = '23505';
+  END IF;
+
+  EXECUTE format(
+    'INSERT INTO player_snapshots (%1$s) SELECT %1$s FROM player_snapshots_archive WHERE snapshot_date = $1',
+    player_snapshot_archive_columns()
+  ) USING p_snapshot_date;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO snapshot_metadata (snapshot_date, record_count, imported_at)
+  SELECT snapshot_date, record_count, imported_at
+  FROM snapshot_metadata_archive
+  WHERE snapshot_date = p_snapshot_date
+  ON CONFLICT (snapshot_date) DO UPDATE
+  SET record_count = EXCLUDED.record_count, imported_at = EXCLUDED.imported_at;
+
+  DELETE FROM player_snapshots_archive WHERE snapshot_date = p_snapshot_date;
+  DELETE FROM snapshot_metadata_archive WHERE snapshot_date = p_snapshot_date;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ============================================================================
+-- purge_archived_snapshots()
+-- ============================================================================
+-- Permanently removes archived snapshots past their purge_after time.
+-- Returns the purged dates and how many player rows each had.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION purge_archived_snapshots()
+RETURNS TABLE (snapshot_date DATE, purged_rows INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    DELETE FROM snapshot_metadata_archive sma
+    WHERE sma.purge_after <= NOW()
+    RETURNING sma.snapshot_date
+  ),
+  purged AS (
+    DELETE FROM player_snapshots_archive psa
+    WHERE psa.snapshot_date IN (SELECT e.snapshot_date FROM expired e)
+    RETURNING psa.snapshot_date
+  )
+  SELECT e.snapshot_date, (SELECT COUNT(*) FROM purged p WHERE p.snapshot_date = e.snapshot_date)::INTEGER
+  FROM expired e;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION player_snapshot_archive_columns() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION archive_snapshot(DATE, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION restore_snapshot(DATE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION purge_archived_snapshots() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION player_snapshot_archive_columns() TO service_role;
+GRANT EXECUTE ON FUNCTION archive_snapshot(DATE, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION restore_snapshot(DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION purge_archived_snapshots() TO service_role;
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Archived snapshots and when they will be purged:
+--   SELECT snapshot_date, record_count, archived_by, archived_at, purge_after
+--   FROM snapshot_metadata_archive ORDER BY snapshot_date DESC;
+--
+-- Keep an archived snapshot longer:
+--   UPDATE snapshot_metadata_archive
+--   SET purge_after = NOW() + INTERVAL '90 days' WHERE snapshot_date = '2025-01-01';
+--
+-- ============================================================================
@@ -0,0 +1,80 @@
+-- ============================================================================
+-- Excluded Players Management
+-- ============================================================================
+--
+-- PURPOSE:
+-- Lets admins manage excluded_players from the dashboard (manage-excluded-players
+-- edge function) instead of direct SQL:
+-- - expires_at: optional end of an exclusion. Expired rows are ignored by the
+--   snapshot decision logic.
+-- - player_sync_misses: every player outside the sync window at a cron
+--   decision, recorded by refresh-leaderboard-cron through
+--   record_sync_decision() (016_player_sync_streaks.sql). Players that keep
+--   missing the sync window are suggested as exclusion candidates.
+--
+-- SECURITY:
+-- - Admins can read and change excluded_players through their own JWT, so the
+--   audit trigger (013_admin_audit_log.sql) records who made the change
+-- - player_sync_misses is service role only (read by the edge function)
+--
+-- ============================================================================
+
+ALTER TABLE excluded_players
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- Row Level Security for excluded_players
+-- ============================================================================
+ALTER TABLE excluded_players ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON excluded_players TO authenticated;
+
+DROP POLICY IF EXISTS "Admins can manage excluded players" ON excluded_players;
+
+CREATE POLICY "Admins can manage excluded players"
+ON excluded_players
+FOR ALL
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+)
+WITH CHECK (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- Table: player_sync_misses
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS player_sync_misses (
+  id BIGSERIAL PRIMARY KEY,
+  discord_id TEXT NOT NULL,
+  ign TEXT NOT NULL,
+  player_updated_at TIMESTAMPTZ NOT NULL,
+  time_difference_hours NUMERIC NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_sync_misses_recorded_at
+ON player_sync_misses(recorded_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_player_sync_misses_discord_id
+ON player_sync_misses(discord_id, recorded_at DESC);
+
+ALTER TABLE player_sync_misses ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON player_sync_misses FROM anon, authenticated;
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Exclude a player for two weeks:
+--   INSERT INTO excluded_players (discord_id, reason, excluded_by, expires_at)
+--   VALUES ('123456789', 'Save data stuck', 'admin_name', NOW() + INTERVAL '14 days');
+--
+-- Players missing the sync window most often in the last week:
+--   SELECT discord_id, MAX(ign) AS ign, COUNT(*) AS misses
+--   FROM player_sync_misses
+--   WHERE recorded_at > NOW() - INTERVAL '7 days'
+--   GROUP BY discord_id ORDER BY misses DESC;
+--
+-- ============================================================================
@@ -0,0 +1,130 @@
+-- ============================================================================
+-- Chronic Desync Tracking
+-- ============================================================================
+--
+-- PURPOSE:
+-- Partial sync warnings kept listing the same laggards. refresh-leaderboard-cron
+-- now tracks how many decisions in a row each player was outside the sync
+-- window (player_sync_streaks). Once a streak reaches
+-- SNAPSHOT_CONFIG.DESYNC_STREAK_THRESHOLD the player is:
+-- - listed in a 'desync_digest' email (once per streak)
+-- - shown on the Exclusions admin page with a one-click exclude
+--
+-- EXCLUSION AUTO-EXPIRY:
+-- excluded_players.expire_on_sync: when TRUE the cron ends the exclusion
+-- (sets expires_at) as soon as the player is back inside the sync window.
+--
+-- DESYNC:
+-- A player is out of sync when their updatedAt is outside the majority's
+-- 1 hour window (findDesyncedPlayers in _shared/snapshot-logic.ts), not the
+-- window starting at the oldest updatedAt that SnapshotDecision uses - one
+-- stuck player would otherwise mark the whole guild as missing.
+--
+-- record_sync_decision() is the single write path for both desync trackers:
+-- it appends to player_sync_misses (015, exclusion candidates over the
+-- lookback window) and updates player_sync_streaks (consecutive decisions).
+--
+-- SECURITY:
+-- - player_sync_streaks is service role only
+-- - record_sync_decision() is service role only
+--
+-- ============================================================================
+
+ALTER TABLE excluded_players
+ADD COLUMN IF NOT EXISTS expire_on_sync BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================================
+-- Table: player_sync_streaks
+-- ============================================================================
+-- One row per player currently outside the sync window. The row is removed
+-- as soon as a decision finds the player in sync again.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS player_sync_streaks (
+  discord_id TEXT PRIMARY KEY,
+  ign TEXT NOT NULL,
+  consecutive_misses INTEGER NOT NULL DEFAULT 1,
+  streak_started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_missed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_updated_at TIMESTAMPTZ, -- player's updatedAt from the bot API
+  digest_sent_at TIMESTAMPTZ -- set once the streak has been emailed
+);
+
+ALTER TABLE player_sync_streaks ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON player_sync_streaks FROM anon, authenticated;
+
+-- ============================================================================
+-- record_sync_decision(p_missing_players, p_lookback_days)
+-- ============================================================================
+-- Applies one snapshot decision to both trackers:
+-- - every player in p_missing_players is appended to player_sync_misses,
+--   and misses older than p_lookback_days are deleted
+-- - players in p_missing_players get their streak extended (or started)
+-- - everyone else's streak ends
+-- p_missing_players: findDesyncedPlayers() output
+--   [{ discord_id, ign, updatedAt, timeDifferenceHours }, ...]
+-- Returns the streaks after the update.
+-- ============================================================================
+DROP FUNCTION IF EXISTS record_sync_decision(JSONB);
+
+CREATE OR REPLACE FUNCTION record_sync_decision(p_missing_players JSONB, p_lookback_days INTEGER)
+RETURNS SETOF player_sync_streaks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO player_sync_misses (discord_id, ign, player_updated_at, time_difference_hours)
+  SELECT
+    p ->> 'discord_id',
+    p ->> 'ign',
+    (p ->> 'updatedAt')::TIMESTAMPTZ,
+    (p ->> 'timeDifferenceHours')::NUMERIC
+  FROM jsonb_array_elements(p_missing_players) p;
+
+  DELETE FROM player_sync_misses
+  WHERE recorded_at < NOW() - MAKE_INTERVAL(days => p_lookback_days);
+
+  DELETE FROM player_sync_streaks
+  WHERE discord_id NOT IN (
+    SELECT p ->> 'discord_id' FROM jsonb_array_elements(p_missing_players) p
+  );
+
+  INSERT INTO player_sync_streaks (discord_id, ign, last_updated_at)
+  SELECT DISTINCT ON (p ->> 'discord_id')
+    p ->> 'discord_id',
+    p ->> 'ign',
+    (p ->> 'updatedAt')::TIMESTAMPTZ
+  FROM jsonb_array_elements(p_missing_players) p
+  ON CONFLICT (discord_id) DO UPDATE
+  SET
+    ign = EXCLUDED.ign,
+    consecutive_misses = player_sync_streaks.consecutive_misses + 1,
+    last_missed_at = NOW(),
+    last_updated_at = EXCLUDED.last_updated_at;
+
+  RETURN QUERY SELECT * FROM player_sync_streaks;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_sync_decision(JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_sync_decision(JSONB, INTEGER) TO service_role;
+
+-- ============================================================================
+-- Email type for the desync digest
+-- ============================================================================
+ALTER TABLE email_log DROP CONSTRAINT IF EXISTS email_log_email_type_check;
+ALTER TABLE email_log ADD CONSTRAINT email_log_email_type_check CHECK (
+  email_type IN ('snapshot_saved', 'partial_sync', 'week_no_update', 'sync_failed', 'desync_digest')
+);
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Current desync streaks, longest first:
+--   SELECT discord_id, ign, consecutive_misses, streak_started_at, digest_sent_at
+--   FROM player_sync_streaks ORDER BY consecutive_misses DESC;
+--
+-- Exclusions that end automatically when the player syncs again:
+--   SELECT discord_id, reason, excluded_at FROM excluded_players WHERE expire_on_sync;
+--
+-- ============================================================================
@@ -0,0 +1,81 @@
+-- ============================================================================
+-- Snapshot Decision Log
+-- ============================================================================
+--
+-- PURPOSE:
+-- snapshot_save_metadata only keeps the latest decision (last_decision_result),
+-- so there was no way to see why a snapshot didn't happen earlier in the week.
+-- refresh-leaderboard-cron now appends every SnapshotDecision here (one row
+-- per run, every 15 minutes) and the admin Snapshots page shows the sync
+-- percentage over time with markers where snapshots were saved.
+--
+-- COLUMNS:
+-- - Mirror SnapshotDecision (see _shared/types.ts)
+-- - hours_since_last_save is NULL when no snapshot was ever saved
+-- - snapshot_saved / snapshot_date: outcome of the run (the save can still
+--   fail after a positive decision)
+--
+-- SECURITY:
+-- - Admins can read the log, the cron writes it with the service role key
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS snapshot_decision_log (
+  id BIGSERIAL PRIMARY KEY,
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  should_save BOOLEAN NOT NULL,
+  sync_percentage NUMERIC NOT NULL,
+  players_in_sync_window INTEGER NOT NULL,
+  total_non_excluded_players INTEGER NOT NULL,
+  total_players_received INTEGER NOT NULL,
+  excluded_player_count INTEGER NOT NULL,
+  missing_player_count INTEGER NOT NULL DEFAULT 0,
+  lowest_updated_at TIMESTAMPTZ,
+  time_since_lowest_update_hours NUMERIC,
+  hours_since_last_save NUMERIC,
+  reason TEXT NOT NULL,
+  is_pending_sync BOOLEAN NOT NULL DEFAULT FALSE,
+  pending_attempt_count INTEGER NOT NULL DEFAULT 0,
+  snapshot_saved BOOLEAN NOT NULL DEFAULT FALSE,
+  snapshot_date DATE
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_decision_log_decided_at
+ON snapshot_decision_log(decided_at DESC);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE snapshot_decision_log ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON snapshot_decision_log FROM anon, authenticated;
+GRANT SELECT ON snapshot_decision_log TO authenticated;
+
+DROP POLICY IF EXISTS "Admins can view snapshot decision log" ON snapshot_decision_log;
+
+CREATE POLICY "Admins can view snapshot decision log"
+ON snapshot_decision_log
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Why no snapshot was saved on a given day:
+--   SELECT decided_at, sync_percentage, reason
+--   FROM snapshot_decision_log
+--   WHERE decided_at::DATE = '2025-01-07' ORDER BY decided_at;
+--
+-- Most common reasons in the last week:
+--   SELECT reason, COUNT(*) FROM snapshot_decision_log
+--   WHERE decided_at > NOW() - INTERVAL '7 days'
+--   GROUP BY reason ORDER BY COUNT(*) DESC;
+--
+-- Trim old history:
+--   DELETE FROM snapshot_decision_log WHERE decided_at < NOW() - INTERVAL '1 year';
+--
+-- ============================================================================
@@ -0,0 +1,123 @@
+-- ============================================================================
+-- Quarantined Player Rows
+-- ============================================================================
+--
+-- PURPOSE:
+-- Bot API rows that fail BotApiPlayer validation (missing EB, string SE, bad
+-- updatedAt, ...) are no longer saved to leaderboard_cache / player_snapshots.
+-- They are kept here with the raw payload and the validation errors so they
+-- can be inspected, while the valid rows are still saved.
+--
+-- WRITTEN BY (via quarantine_player_rows):
+-- - refresh-leaderboard-cron (every run)
+-- - update-player-data (manual/external runs)
+-- - get-leaderboard (when it refreshes a stale cache)
+--
+-- DEDUPLICATION:
+-- The same broken row is returned on every 15 minute run, so rows are unique
+-- by payload (payload_md5). Seeing it again bumps seen_count/last_seen_at.
+--
+-- SECURITY:
+-- - Admins can read the table, only the service role can write it
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quarantined_player_rows (
+  id BIGSERIAL PRIMARY KEY,
+  discord_id TEXT, -- NULL when the row had no usable ID
+  errors TEXT[] NOT NULL,
+  raw_payload JSONB NOT NULL,
+  payload_md5 TEXT GENERATED ALWAYS AS (md5(raw_payload::TEXT)) STORED,
+  source TEXT NOT NULL, -- 'bot_api' or 'fixture:<path>'
+  context TEXT NOT NULL, -- edge function that loaded the row
+  snapshot_date DATE, -- snapshot being saved, if any
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  seen_count INTEGER NOT NULL DEFAULT 1,
+  UNIQUE (payload_md5)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_player_rows_last_seen
+ON quarantined_player_rows(last_seen_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_player_rows_discord_id
+ON quarantined_player_rows(discord_id);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE quarantined_player_rows ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON quarantined_player_rows FROM anon, authenticated;
+GRANT SELECT ON quarantined_player_rows TO authenticated;
+
+DROP POLICY IF EXISTS "Admins can view quarantined player rows" ON quarantined_player_rows;
+
+CREATE POLICY "Admins can view quarantined player rows"
+ON quarantined_player_rows
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- quarantine_player_rows(p_rows, p_source, p_context, p_snapshot_date)
+-- ============================================================================
+-- p_rows: [{ discord_id, errors: [..], raw }, ...]
+-- Returns the number of rows not seen before.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION quarantine_player_rows(
+  p_rows JSONB,
+  p_source TEXT,
+  p_context TEXT,
+  p_snapshot_date DATE DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_new INTEGER;
+BEGIN
+  WITH upserted AS (
+    INSERT INTO quarantined_player_rows (discord_id, errors, raw_payload, source, context, snapshot_date)
+    -- The same payload twice in one batch would hit the same row twice
+    SELECT DISTINCT ON (md5((r -> 'raw')::TEXT))
+      r ->> 'discord_id',
+      ARRAY(SELECT jsonb_array_elements_text(r -> 'errors')),
+      r -> 'raw',
+      p_source,
+      p_context,
+      p_snapshot_date
+    FROM jsonb_array_elements(p_rows) r
+    ORDER BY md5((r -> 'raw')::TEXT)
+    ON CONFLICT (payload_md5) DO UPDATE
+    SET
+      last_seen_at = NOW(),
+      seen_count = quarantined_player_rows.seen_count + 1,
+      context = EXCLUDED.context,
+      snapshot_date = COALESCE(EXCLUDED.snapshot_date, quarantined_player_rows.snapshot_date)
+    RETURNING (xmax = 0) AS inserted
+  )
+  SELECT COUNT(*) FILTER (WHERE inserted) INTO v_new FROM upserted;
+
+  RETURN v_new;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION quarantine_player_rows(JSONB, TEXT, TEXT, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION quarantine_player_rows(JSONB, TEXT, TEXT, DATE) TO service_role;
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Recently quarantined rows:
+--   SELECT last_seen_at, discord_id, errors, seen_count, raw_payload
+--   FROM quarantined_player_rows ORDER BY last_seen_at DESC LIMIT 50;
+--
+-- Clear rows the bot API has stopped sending:
+--   DELETE FROM quarantined_player_rows WHERE last_seen_at < NOW() - INTERVAL '30 days';
+--
+-- ============================================================================
@@ -0,0 +1,141 @@
+-- ============================================================================
+-- Atomic Leaderboard Cache Refresh
+-- ============================================================================
+--
+-- PURPOSE:
+-- get-leaderboard and refresh-leaderboard-cron used to delete every
+-- leaderboard_cache row and then insert the new players in batches of 100.
+-- Readers could see an empty or half-filled leaderboard in between, and a
+-- failed batch left the cache broken until the next refresh.
+--
+-- HOW IT WORKS NOW (_shared/leaderboard-cache.ts):
+-- 1. The writer picks a new refresh_id (UUID)
+-- 2. Rows are inserted in batches into leaderboard_cache_staging under that ID
+-- 3. publish_leaderboard_cache(refresh_id, expected_count) swaps the staged
+--    rows into leaderboard_cache in a single transaction
+--
+-- Readers keep seeing the previous complete version until the publish commits
+-- (DELETE + INSERT in one transaction, not TRUNCATE, so reads never block).
+-- They read through get_leaderboard_cache(), one statement for the whole
+-- cache: paging leaderboard_cache with separate requests could read one page
+-- before a publish and the next after it.
+-- If staging fails part way, nothing is published; leftover staging rows are
+-- cleaned up by the next publish.
+--
+-- SECURITY:
+-- - Service role only, like leaderboard_cache (see 003_leaderboard_cache.sql)
+--
+-- ============================================================================
+
+-- ============================================================================
+-- Table: leaderboard_cache_staging
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS leaderboard_cache_staging (
+  refresh_id UUID NOT NULL,
+  LIKE leaderboard_cache,
+  staged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (refresh_id, discord_id)
+);
+
+REVOKE ALL ON leaderboard_cache_staging FROM anon, authenticated;
+
+-- Version currently published in leaderboard_cache
+ALTER TABLE leaderboard_cache_metadata
+  ADD COLUMN IF NOT EXISTS refresh_id UUID;
+
+-- ============================================================================
+-- publish_leaderboard_cache(p_refresh_id, p_expected_count)
+-- ============================================================================
+-- Replaces leaderboard_cache with the staged rows of p_refresh_id and marks
+-- the cache as fresh. Raises (and publishes nothing) if the number of staged
+-- rows doesn't match p_expected_count. Returns the number of rows published.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION publish_leaderboard_cache(
+  p_refresh_id UUID,
+  p_expected_count INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_staged INTEGER;
+BEGIN
+  -- Serialize concurrent publishers; EXCLUSIVE still allows plain SELECTs
+  LOCK TABLE leaderboard_cache IN EXCLUSIVE MODE;
+
+  SELECT COUNT(*) INTO v_staged
+  FROM leaderboard_cache_staging
+  WHERE refresh_id = p_refresh_id;
+
+  IF v_staged = 0 OR v_staged <> p_expected_count THEN
+    RAISE EXCEPTION 'Leaderboard cache refresh % is incomplete: % of % rows staged',
+      p_refresh_id, v_staged, p_expected_count
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  DELETE FROM leaderboard_cache;
+
+  INSERT INTO leaderboard_cache (
+    discord_id, ign, display_name, discord_name, eb, se, pe, te,
+    num_prestiges, farmer_role, grade, is_guest, active,
+    gains_saturday, max_mystical_eggs
+  )
+  SELECT
+    discord_id, ign, display_name, discord_name, eb, se, pe, te,
+    num_prestiges, farmer_role, grade, is_guest, active,
+    gains_saturday, max_mystical_eggs
+  FROM leaderboard_cache_staging
+  WHERE refresh_id = p_refresh_id;
+
+  -- This version plus anything abandoned by failed refreshes
+  DELETE FROM leaderboard_cache_staging
+  WHERE refresh_id = p_refresh_id
+     OR staged_at < NOW() - INTERVAL '1 hour';
+
+  INSERT INTO leaderboard_cache_metadata (id, last_updated, refresh_id)
+  VALUES (1, NOW(), p_refresh_id)
+  ON CONFLICT (id) DO UPDATE
+  SET last_updated = EXCLUDED.last_updated,
+      refresh_id = EXCLUDED.refresh_id;
+
+  RETURN v_staged;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION publish_leaderboard_cache(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION publish_leaderboard_cache(UUID, INTEGER) TO service_role;
+
+-- ============================================================================
+-- get_leaderboard_cache()
+-- ============================================================================
+-- Every leaderboard_cache row as one JSONB array, ordered by discord_id.
+-- A single statement sees a single published version, and one row (instead
+-- of a row set) isn't cut off by the API's max rows setting.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_leaderboard_cache()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(to_jsonb(lc) ORDER BY lc.discord_id), '[]'::JSONB)
+  FROM leaderboard_cache lc;
+$$;
+
+REVOKE ALL ON FUNCTION get_leaderboard_cache() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_leaderboard_cache() TO service_role;
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Published version and age:
+--   SELECT refresh_id, last_updated, NOW() - last_updated AS age
+--   FROM leaderboard_cache_metadata;
+--
+-- Unpublished (in progress or abandoned) refreshes:
+--   SELECT refresh_id, COUNT(*), MIN(staged_at)
+--   FROM leaderboard_cache_staging GROUP BY refresh_id;
+--
+-- ============================================================================
@@ -0,0 +1,121 @@
+-- ============================================================================
+-- Leaderboard Refresh Lease
+-- ============================================================================
+--
+-- PURPOSE:
+-- When the cache goes stale, every concurrent get-leaderboard request used to
+-- call the bot API and rewrite leaderboard_cache on its own. Now a request
+-- must take the refresh lease first; requests that don't get it serve the
+-- stale cache with `refreshing: true` in the response.
+--
+-- LEASE:
+-- - Stored on the single leaderboard_cache_metadata row
+-- - Expires by itself so a crashed request can't block refreshes forever
+-- - Only granted while the cache is still older than the caller's freshness
+--   cutoff, so a request that read stale metadata doesn't refresh again right
+--   after another request published
+-- - Released early only after a successful publish. A failed refresh keeps
+--   the lease for a backoff period and records last_refresh_failed_at, so a
+--   bot API outage is retried once per backoff instead of on every request
+--
+-- SECURITY:
+-- - Service role only (see 003_leaderboard_cache.sql)
+--
+-- ============================================================================
+
+ALTER TABLE leaderboard_cache_metadata
+  ADD COLUMN IF NOT EXISTS refresh_lease_id UUID,
+  ADD COLUMN IF NOT EXISTS refresh_lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_refresh_failed_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- acquire_leaderboard_refresh_lease(p_lease_id, p_lease_seconds, p_stale_before)
+-- ============================================================================
+-- Returns TRUE if the caller now holds the lease and should refresh.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION acquire_leaderboard_refresh_lease(
+  p_lease_id UUID,
+  p_lease_seconds INTEGER,
+  p_stale_before TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_acquired BOOLEAN;
+BEGIN
+  UPDATE leaderboard_cache_metadata
+  SET refresh_lease_id = p_lease_id,
+      refresh_lease_expires_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE id = 1
+    AND last_updated < p_stale_before
+    AND (refresh_lease_expires_at IS NULL OR refresh_lease_expires_at < NOW())
+  RETURNING TRUE INTO v_acquired;
+
+  RETURN COALESCE(v_acquired, FALSE);
+END;
+$$;
+
+-- ============================================================================
+-- release_leaderboard_refresh_lease(p_lease_id)
+-- ============================================================================
+-- Ends the lease early after a successful publish. No-op if the lease
+-- already expired and was taken by another request.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION release_leaderboard_refresh_lease(p_lease_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE leaderboard_cache_metadata
+  SET refresh_lease_id = NULL,
+      refresh_lease_expires_at = NULL
+  WHERE id = 1
+    AND refresh_lease_id = p_lease_id;
+$$;
+
+-- ============================================================================
+-- fail_leaderboard_refresh_lease(p_lease_id, p_backoff_seconds)
+-- ============================================================================
+-- Records a failed refresh and holds the lease for p_backoff_seconds, so no
+-- request retries the bot API until then. No-op if the lease already
+-- expired and was taken by another request.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION fail_leaderboard_refresh_lease(
+  p_lease_id UUID,
+  p_backoff_seconds INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE leaderboard_cache_metadata
+  SET refresh_lease_expires_at = NOW() + make_interval(secs => p_backoff_seconds),
+      last_refresh_failed_at = NOW()
+  WHERE id = 1
+    AND refresh_lease_id = p_lease_id;
+$$;
+
+REVOKE ALL ON FUNCTION acquire_leaderboard_refresh_lease(UUID, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION release_leaderboard_refresh_lease(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION fail_leaderboard_refresh_lease(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION acquire_leaderboard_refresh_lease(UUID, INTEGER, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION release_leaderboard_refresh_lease(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_leaderboard_refresh_lease(UUID, INTEGER) TO service_role;
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Current lease:
+--   SELECT last_updated, refresh_lease_id, refresh_lease_expires_at,
+--          refresh_lease_expires_at > NOW() AS refresh_in_progress,
+--          last_refresh_failed_at > last_updated AS last_refresh_failed
+--   FROM leaderboard_cache_metadata;
+--
+-- Clear a stuck lease:
+--   UPDATE leaderboard_cache_metadata
+--   SET refresh_lease_id = NULL, refresh_lease_expires_at = NULL;
+--
+-- ============================================================================
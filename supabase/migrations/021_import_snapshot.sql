@@ -0,0 +1,154 @@
+-- ============================================================================
+-- Transactional Snapshot Import
+-- ============================================================================
+--
+-- PURPOSE:
+-- update-player-data used to upsert player_snapshots and eggday_gains in
+-- batches of 100 and carry on when a batch failed, so a snapshot could end up
+-- with 700 of 800 players while snapshot_metadata still recorded 800.
+--
+-- import_snapshot() writes player_snapshots, eggday_gains and
+-- snapshot_metadata in one transaction: either the whole snapshot is saved
+-- or nothing is (update-player-data then sends a sync_failed email).
+--
+-- RE-IMPORTS:
+-- Importing a date that already has a snapshot replaces it - players missing
+-- from the new import are removed, so record_count always matches the rows
+-- stored for that date.
+--
+-- FAILED SAVES:
+-- A rolled-back import is a normal outcome for refresh-leaderboard-cron: the
+-- run continues and logs the decision with snapshot_saved = FALSE and the
+-- error in snapshot_decision_log.save_error. A save refused by the data
+-- quality checks (HTTP 422) is logged the same way with save_blocked = TRUE
+-- and the block reason as save_error.
+--
+-- SECURITY:
+-- - Service role only (called by update-player-data)
+--
+-- ============================================================================
+
+-- ============================================================================
+-- import_snapshot(p_snapshot_date, p_snapshots, p_eggday_gains)
+-- ============================================================================
+-- p_snapshots: player_snapshots rows as JSON (see transformPlayer)
+-- p_eggday_gains: eggday_gains rows as JSON (see extractEggdayGains)
+-- Returns how many rows of each were written.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION import_snapshot(
+  p_snapshot_date DATE,
+  p_snapshots JSONB,
+  p_eggday_gains JSONB DEFAULT '[]'::JSONB
+)
+RETURNS TABLE (snapshots_inserted INTEGER, eggday_inserted INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshots INTEGER;
+  v_eggday INTEGER := 0;
+BEGIN
+  IF jsonb_typeof(p_snapshots) <> 'array' OR jsonb_array_length(p_snapshots) = 0 THEN
+    RAISE EXCEPTION 'No player snapshots to import for %', p_snapshot_date
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Replace, don't merge, an existing snapshot for this date
+  DELETE FROM player_snapshots ps
+  WHERE ps.snapshot_date = p_snapshot_date
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_snapshots) s
+      WHERE s ->> 'discord_id' = ps.discord_id
+    );
+
+  INSERT INTO player_snapshots (
+    snapshot_date, discord_id, ign, display_name, discord_name, eb, se, pe, te,
+    num_prestiges, farmer_role, grade, is_guest, active,
+    gains_saturday, max_mystical_eggs, updated_at
+  )
+  SELECT
+    p_snapshot_date, discord_id, ign, display_name, discord_name, eb, se, pe, te,
+    num_prestiges, farmer_role, grade, is_guest, active,
+    gains_saturday, max_mystical_eggs, updated_at
+  FROM jsonb_populate_recordset(NULL::player_snapshots, p_snapshots)
+  ON CONFLICT (snapshot_date, discord_id) DO UPDATE
+  SET ign = EXCLUDED.ign,
+      display_name = EXCLUDED.display_name,
+      discord_name = EXCLUDED.discord_name,
+      eb = EXCLUDED.eb,
+      se = EXCLUDED.se,
+      pe = EXCLUDED.pe,
+      te = EXCLUDED.te,
+      num_prestiges = EXCLUDED.num_prestiges,
+      farmer_role = EXCLUDED.farmer_role,
+      grade = EXCLUDED.grade,
+      is_guest = EXCLUDED.is_guest,
+      active = EXCLUDED.active,
+      gains_saturday = EXCLUDED.gains_saturday,
+      max_mystical_eggs = EXCLUDED.max_mystical_eggs,
+      updated_at = EXCLUDED.updated_at;
+
+  GET DIAGNOSTICS v_snapshots = ROW_COUNT;
+
+  IF p_eggday_gains IS NOT NULL AND jsonb_array_length(p_eggday_gains) > 0 THEN
+    INSERT INTO eggday_gains (
+      discord_id, year,
+      start_se, start_pe, start_eb, start_role, start_prestiges,
+      end_se, end_pe, end_eb, end_role, end_prestiges
+    )
+    SELECT
+      discord_id, year,
+      start_se, start_pe, start_eb, start_role, start_prestiges,
+      end_se, end_pe, end_eb, end_role, end_prestiges
+    FROM jsonb_populate_recordset(NULL::eggday_gains, p_eggday_gains)
+    ON CONFLICT (discord_id, year) DO UPDATE
+    SET start_se = EXCLUDED.start_se,
+        start_pe = EXCLUDED.start_pe,
+        start_eb = EXCLUDED.start_eb,
+        start_role = EXCLUDED.start_role,
+        start_prestiges = EXCLUDED.start_prestiges,
+        end_se = EXCLUDED.end_se,
+        end_pe = EXCLUDED.end_pe,
+        end_eb = EXCLUDED.end_eb,
+        end_role = EXCLUDED.end_role,
+        end_prestiges = EXCLUDED.end_prestiges;
+
+    GET DIAGNOSTICS v_eggday = ROW_COUNT;
+  END IF;
+
+  -- Actual row count, not the number of players sent
+  INSERT INTO snapshot_metadata (snapshot_date, record_count, imported_at)
+  VALUES (p_snapshot_date, v_snapshots, NOW())
+  ON CONFLICT (snapshot_date) DO UPDATE
+  SET record_count = EXCLUDED.record_count,
+      imported_at = EXCLUDED.imported_at;
+
+  RETURN QUERY SELECT v_snapshots, v_eggday;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_snapshot(DATE, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_snapshot(DATE, JSONB, JSONB) TO service_role;
+
+-- Why a positive decision didn't produce a snapshot (NULL when it did)
+ALTER TABLE snapshot_decision_log
+  ADD COLUMN IF NOT EXISTS save_error TEXT,
+  ADD COLUMN IF NOT EXISTS save_blocked BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Snapshots whose metadata doesn't match the stored rows (imports before this
+-- migration):
+--   SELECT sm.snapshot_date, sm.record_count, COUNT(ps.discord_id) AS actual
+--   FROM snapshot_metadata sm
+--   LEFT JOIN player_snapshots ps ON ps.snapshot_date = sm.snapshot_date
+--   GROUP BY sm.snapshot_date, sm.record_count
+--   HAVING sm.record_count <> COUNT(ps.discord_id);
+--
+-- Failed or blocked cron saves:
+--   SELECT decided_at, save_blocked, save_error FROM snapshot_decision_log
+--   WHERE save_error IS NOT NULL ORDER BY decided_at DESC;
+--
+-- ============================================================================
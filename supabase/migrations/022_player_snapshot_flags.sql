@@ -0,0 +1,185 @@
+-- ============================================================================
+-- Player Snapshot Flags
+-- ============================================================================
+--
+-- PURPOSE:
+-- Marks snapshots whose data looks wrong for a player, so admins can tell a
+-- real reset from bad data in the PlayerLookup progression chart.
+--
+-- FLAGS (compared with the player's previous snapshot):
+-- - 'se_decrease':   Soul Eggs went down
+-- - 'pe_decrease':   Prophecy Eggs went down
+-- - 'role_mismatch': farmer_role doesn't match the role for the EB
+--                    (eb_to_role, same as EBtoRole in src/utils/eb.ts)
+-- - 'grade_change':  grade changed
+--
+-- WRITTEN BY:
+-- - This migration (backfill of all existing snapshots)
+-- - update-player-data after every import, delete-snapshot after archiving
+--   and restore-snapshot after restoring (flag_snapshot_anomalies)
+--
+-- SECURITY:
+-- - Admins can read flags, only the service role can write them
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS player_snapshot_flags (
+  snapshot_date DATE NOT NULL,
+  discord_id TEXT NOT NULL,
+  flag TEXT NOT NULL CHECK (flag IN ('se_decrease', 'pe_decrease', 'role_mismatch', 'grade_change')),
+  previous_value TEXT, -- Previous snapshot's value (NULL for role_mismatch)
+  current_value TEXT, -- Value in this snapshot (role_mismatch: the stored role)
+  expected_value TEXT, -- role_mismatch only: role for the EB
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (snapshot_date, discord_id, flag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_snapshot_flags_discord_id
+ON player_snapshot_flags(discord_id, snapshot_date);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+ALTER TABLE player_snapshot_flags ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON player_snapshot_flags FROM anon, authenticated;
+GRANT SELECT ON player_snapshot_flags TO authenticated;
+
+DROP POLICY IF EXISTS "Admins can view player snapshot flags" ON player_snapshot_flags;
+
+CREATE POLICY "Admins can view player snapshot flags"
+ON player_snapshot_flags
+FOR SELECT
+TO authenticated
+USING (
+  (auth.jwt() ->> 'access_level') = 'admin'
+);
+
+-- ============================================================================
+-- eb_to_role(p_eb)
+-- ============================================================================
+-- Farmer role for an EB value; one role per order of magnitude, capped at
+-- the last role. Keep in sync with FARMER_ROLES in src/utils/eb.ts.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION eb_to_role(p_eb NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (ARRAY[
+    'Farmer I', 'Farmer II', 'Farmer III',
+    'Kilofarmer I', 'Kilofarmer II', 'Kilofarmer III',
+    'Megafarmer I', 'Megafarmer II', 'Megafarmer III',
+    'Gigafarmer I', 'Gigafarmer II', 'Gigafarmer III',
+    'Terafarmer I', 'Terafarmer II', 'Terafarmer III',
+    'Petafarmer I', 'Petafarmer II', 'Petafarmer III',
+    'Exafarmer I', 'Exafarmer II', 'Exafarmer III',
+    'Zettafarmer I', 'Zettafarmer II', 'Zettafarmer III',
+    'Yottafarmer I', 'Yottafarmer II', 'Yottafarmer III',
+    'Xennafarmer I', 'Xennafarmer II', 'Xennafarmer III',
+    'Weccafarmer I', 'Weccafarmer II', 'Weccafarmer III',
+    'Vendafarmer I', 'Vendafarmer II', 'Vendafarmer III',
+    'Uadafarmer I', 'Uadafarmer II', 'Uadafarmer III',
+    'Treidafarmer I', 'Treidafarmer II', 'Treidafarmer III',
+    'Quadafarmer I', 'Quadafarmer II', 'Quadafarmer III',
+    'Pendafarmer I', 'Pendafarmer II', 'Pendafarmer III',
+    'Exedafarmer I', 'Exedafarmer II', 'Exedafarmer III',
+    'Infinifarmer I'
+  ])[LEAST(GREATEST(CASE WHEN p_eb >= 1 THEN FLOOR(LOG(p_eb))::INTEGER ELSE 0 END, 0), 51) + 1];
+$$;
+
+-- ============================================================================
+-- flag_snapshot_anomalies(p_snapshot_date)
+-- ============================================================================
+-- Recomputes the flags of one snapshot (or of every snapshot when NULL).
+-- Each player's next snapshot after the date is recomputed too, since its
+-- flags compare against whatever snapshot now precedes it. For an archived
+-- date this just drops its flags and re-compares the following snapshots.
+-- Returns the number of flags written.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION flag_snapshot_anomalies(p_snapshot_date DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM player_snapshot_flags f
+  WHERE p_snapshot_date IS NULL
+     OR f.snapshot_date = p_snapshot_date
+     OR (
+       f.snapshot_date > p_snapshot_date
+       AND NOT EXISTS (
+         SELECT 1 FROM player_snapshots ps
+         WHERE ps.discord_id = f.discord_id
+           AND ps.snapshot_date > p_snapshot_date
+           AND ps.snapshot_date < f.snapshot_date
+       )
+     );
+
+  WITH history AS (
+    SELECT
+      snapshot_date,
+      discord_id,
+      se,
+      pe,
+      eb,
+      farmer_role,
+      LOWER(grade) AS grade,
+      LAG(se) OVER w AS prev_se,
+      LAG(pe) OVER w AS prev_pe,
+      LOWER(LAG(grade) OVER w) AS prev_grade,
+      LAG(snapshot_date) OVER w AS prev_date
+    FROM player_snapshots
+    WINDOW w AS (PARTITION BY discord_id ORDER BY snapshot_date)
+  ),
+  target AS (
+    SELECT * FROM history
+    WHERE p_snapshot_date IS NULL
+       OR snapshot_date = p_snapshot_date
+       -- The player's first snapshot after the date
+       OR (snapshot_date > p_snapshot_date AND (prev_date IS NULL OR prev_date <= p_snapshot_date))
+  ),
+  flags AS (
+    SELECT snapshot_date, discord_id, 'se_decrease' AS flag,
+           prev_se::TEXT AS previous_value, se::TEXT AS current_value, NULL::TEXT AS expected_value
+    FROM target WHERE se < prev_se
+    UNION ALL
+    SELECT snapshot_date, discord_id, 'pe_decrease', prev_pe::TEXT, pe::TEXT, NULL
+    FROM target WHERE pe < prev_pe
+    UNION ALL
+    SELECT snapshot_date, discord_id, 'role_mismatch', NULL, farmer_role, eb_to_role(eb)
+    FROM target WHERE farmer_role IS NOT NULL AND eb IS NOT NULL AND farmer_role <> eb_to_role(eb)
+    UNION ALL
+    SELECT snapshot_date, discord_id, 'grade_change', prev_grade, grade, NULL
+    FROM target WHERE grade <> prev_grade
+  )
+  INSERT INTO player_snapshot_flags (snapshot_date, discord_id, flag, previous_value, current_value, expected_value)
+  SELECT snapshot_date, discord_id, flag, previous_value, current_value, expected_value
+  FROM flags
+  ON CONFLICT (snapshot_date, discord_id, flag) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION flag_snapshot_anomalies(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION flag_snapshot_anomalies(DATE) TO service_role;
+
+-- Backfill every existing snapshot
+SELECT flag_snapshot_anomalies(NULL);
+
+-- ============================================================================
+-- Helper Queries
+-- ============================================================================
+--
+-- Flags per snapshot:
+--   SELECT snapshot_date, flag, COUNT(*)
+--   FROM player_snapshot_flags GROUP BY snapshot_date, flag ORDER BY snapshot_date DESC;
+--
+-- One player's flags:
+--   SELECT * FROM player_snapshot_flags WHERE discord_id = '<id>' ORDER BY snapshot_date;
+--
+-- ============================================================================